@@ -1,13 +1,63 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Project, Scene, AppState } from './types';
-import * as GeminiService from './services/geminiService';
+import { Project, Scene, SceneTake, PendingOperation, AppState, ProjectSummary, CaptionStyle, CastMember, GenerationSettings, AspectRatio, ScriptOptions } from './types';
+import * as GenerationService from './services/generationService';
+import { needsApiKey } from './services/providers';
 import * as FileService from './services/fileService';
+import * as ProjectStore from './services/projectStore';
+import * as RenderService from './services/renderService';
+import * as VoiceoverService from './services/voiceoverService';
+import * as StoryboardService from './services/storyboardService';
 import Timeline from './components/Timeline';
 import LogPanel from './components/LogPanel';
+import QueuePanel from './components/QueuePanel';
 import FullScreenPlayer from './components/FullScreenPlayer';
 import SettingsModal from './components/SettingsModal';
+import ProjectLibrary from './components/ProjectLibrary';
+import CaptionOverlay from './components/CaptionOverlay';
+import CaptionStylePanel from './components/CaptionStylePanel';
+import SyncedAudio from './components/SyncedAudio';
+import CastEditor from './components/CastEditor';
+import SceneCastEditor from './components/SceneCastEditor';
+import TakeHistory from './components/TakeHistory';
+import TakeCompare from './components/TakeCompare';
+import CandidateGrid from './components/CandidateGrid';
+import GenerationSettingsPanel from './components/GenerationSettingsPanel';
+import UsagePanel from './components/UsagePanel';
+import SceneAdvancedEditor from './components/SceneAdvancedEditor';
+import PromptTemplatesPanel from './components/PromptTemplatesPanel';
+import PromptPreview from './components/PromptPreview';
+import ScriptOptionsPanel from './components/ScriptOptionsPanel';
+import SceneRewriteBar from './components/SceneRewriteBar';
+import SceneRewriteReview from './components/SceneRewriteReview';
+import ScriptImportModal from './components/ScriptImportModal';
+import { ParsedScript } from './services/scriptImporter';
+import StoryboardExportMenu, { StoryboardFormat } from './components/StoryboardExportMenu';
+import StoryboardGrid from './components/StoryboardGrid';
+import { SceneRewriteAction, SceneRewriteProposal, SceneScriptField, applySceneFields } from './services/sceneRewrite';
+import {
+  createCastMember,
+  getSceneCast,
+  getSpeaker,
+  createBlankScene,
+  duplicateScene,
+  moveScene,
+  renumberScenes,
+  settleSceneStatus,
+  addTakes,
+  selectTake,
+  removeTake,
+  getSceneTakes,
+  isActiveTake,
+  getLatestBatch,
+  MAX_CANDIDATES,
+} from './services/projectUtils';
+import { DEFAULT_CAPTION_STYLE } from './services/captionRenderer';
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIO, getAspectSpec } from './services/aspectRatio';
+import { useProjectHistory, HistoryOptions } from './hooks/useProjectHistory';
 import { logger } from './services/logger';
+import { generationQueue, isCancelledError } from './services/generationQueue';
+import { usageTracker, formatCost } from './services/usageTracker';
 import { 
   PlayIcon, 
   PauseIcon, 
@@ -16,12 +66,21 @@ import {
   ArrowPathIcon, 
   VideoCameraIcon,
   ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
   FolderArrowDownIcon,
   PlayCircleIcon,
   Cog6ToothIcon,
   PhotoIcon,
-  EyeIcon,
-  ClockIcon
+  SpeakerWaveIcon,
+  ClockIcon,
+  UserGroupIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  QueueListIcon,
+  DocumentTextIcon,
+  Squares2X2Icon
 } from '@heroicons/react/24/solid';
 
 // Define reusable styles as constants to ensure Tailwind picks them up correctly
@@ -30,40 +89,128 @@ const labelClass = "block text-xs font-bold text-gray-400 uppercase tracking-wid
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>('dashboard');
-  const [currentProject, setCurrentProject] = useState<Project | null>(null);
+  const {
+    project: currentProject,
+    setProject: setCurrentProject,
+    resetProject,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useProjectHistory();
   
   // Script Gen Inputs
   const [topicInput, setTopicInput] = useState('');
-  const [charDescInput, setCharDescInput] = useState('Cute 3D animated cat with blue fur');
+  const [castInput, setCastInput] = useState<CastMember[]>(() => [createCastMember('Mochi', 'Cute 3D animated cat with blue fur')]);
+  const [settingsInput, setSettingsInput] = useState<GenerationSettings>({});
+  const [aspectInput, setAspectInput] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [scriptOptionsInput, setScriptOptionsInput] = useState<ScriptOptions>({});
   const [isGeneratingScript, setIsGeneratingScript] = useState(false);
+  const [showScriptImport, setShowScriptImport] = useState(false);
   
   // Character Preview State
-  const [isGeneratingCharPreview, setIsGeneratingCharPreview] = useState(false);
-  const [charPreviewUrl, setCharPreviewUrl] = useState<string | null>(null);
+  const [generatingCastIds, setGeneratingCastIds] = useState<string[]>([]);
+  const [showCastPanel, setShowCastPanel] = useState(false);
 
   // Editing State
   const [activeSceneIndex, setActiveSceneIndex] = useState(0);
+  const [insertingAfterIndex, setInsertingAfterIndex] = useState<number | null>(null);
+  const [rewritingSceneId, setRewritingSceneId] = useState<string | null>(null);
+  const [rewriteProposal, setRewriteProposal] = useState<SceneRewriteProposal | null>(null);
 
   // Player State
   const [isPlaying, setIsPlaying] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [showFullMovie, setShowFullMovie] = useState(false);
   const [previewMode, setPreviewMode] = useState<'main' | 'idle'>('main');
+  const [compareTakeId, setCompareTakeId] = useState<string | null>(null);
+  // Veo operations being collected by a job in this session, so reopening a project does not resume them twice
+  const trackedOperations = useRef(new Set<string>());
+  // Id of the project in the editor, read by jobs that outlive the render they were started from
+  const openProjectIdRef = useRef<string | null>(null);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const [storyboardProgress, setStoryboardProgress] = useState<number | null>(null);
+  const [showStoryboardGrid, setShowStoryboardGrid] = useState(false);
 
   // UI State
   const [showLogs, setShowLogs] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
+  const [activeJobCount, setActiveJobCount] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
 
+  // Project Library State
+  const [savedProjects, setSavedProjects] = useState<ProjectSummary[]>([]);
+
   useEffect(() => {
     // Check for API key on mount, if missing, prompt settings
     const localKey = localStorage.getItem("gemini_api_key");
     const envKey = process.env.API_KEY;
-    if (!localKey && !envKey) {
+    if (!localKey && !envKey && needsApiKey()) {
         setShowSettings(true);
         logger.info("No API Key detected, opening settings.");
     }
   }, []);
 
+  const refreshProjectList = async () => {
+    try {
+      setSavedProjects(await ProjectStore.listProjects());
+    } catch (err) {
+      logger.error("Failed to read project library", err);
+    }
+  };
+
+  useEffect(() => {
+    if (appState === 'dashboard') refreshProjectList();
+  }, [appState]);
+
+  // Autosave: debounce so typing in the editor does not hit IndexedDB on every keystroke
+  useEffect(() => {
+    if (!currentProject) return;
+    const timer = setTimeout(() => {
+      ProjectStore.saveProject(currentProject).catch(err => logger.error("Autosave failed", err));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [currentProject]);
+
+  useEffect(() => {
+    openProjectIdRef.current = currentProject?.id ?? null;
+  }, [currentProject?.id]);
+
+  useEffect(() => generationQueue.subscribe(jobs =>
+    setActiveJobCount(jobs.filter(j => j.status === 'pending' || j.status === 'running' || j.status === 'retrying').length)
+  ), []);
+
+  // Undo / redo shortcuts while a project is open
+  useEffect(() => {
+    if (appState !== 'editing' && appState !== 'preview') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || showSettings) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        if (undo()) logger.info("Undo");
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        if (redo()) logger.info("Redo");
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [appState, showSettings, undo, redo]);
+
+  // A comparison belongs to the scene it was opened on
+  useEffect(() => {
+    setCompareTakeId(null);
+  }, [activeSceneIndex, currentProject?.id]);
+
+  // Undoing an insert can leave the selection past the end of the timeline
+  useEffect(() => {
+    if (currentProject && activeSceneIndex >= currentProject.scenes.length) {
+      setActiveSceneIndex(Math.max(0, currentProject.scenes.length - 1));
+    }
+  }, [currentProject, activeSceneIndex]);
+
   // Handlers
   const handleStartProject = async () => {
     if (!topicInput.trim()) {
@@ -72,20 +219,15 @@ const App: React.FC = () => {
     }
     setIsGeneratingScript(true);
     try {
-      const scenes = await GeminiService.generateScript(topicInput);
-      const newProject: Project = {
-        id: Date.now().toString(),
-        name: topicInput.substring(0, 30),
-        topic: topicInput,
-        characterDescription: charDescInput,
-        characterImageUrl: charPreviewUrl || undefined,
-        scenes,
-        createdAt: Date.now(),
-      };
-      setCurrentProject(newProject);
-      setAppState('editing');
-      setActiveSceneIndex(0);
-      logger.info("Project initialized", { sceneCount: scenes.length });
+      const projectId = Date.now().toString();
+      const { scenes, cast, warnings } = await GenerationService.generateScript(
+        topicInput, castInput,
+        { id: projectId, generationSettings: settingsInput, aspectRatio: aspectInput, scriptOptions: scriptOptionsInput }
+      );
+      openNewProject(projectId, topicInput, { scenes, cast });
+      if (warnings?.length) {
+        alert(`The script does not fully match your options:\n${warnings.join('\n')}\n\nAdd scenes in the timeline or generate the script again.`);
+      }
     } catch (error) {
       console.error(error);
       alert('Failed to generate script. Check your API Key in Settings.');
@@ -95,33 +237,285 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGenerateCharPreview = async () => {
-    if (!charDescInput) return;
-    setIsGeneratingCharPreview(true);
+  // New project from a written or imported script, with the dashboard's settings
+  const openNewProject = (projectId: string, topic: string, { scenes, cast }: GenerationService.ScriptResult) => {
+    const newProject: Project = {
+      id: projectId,
+      name: topic.substring(0, 30),
+      topic,
+      cast,
+      scenes,
+      createdAt: Date.now(),
+      generationSettings: settingsInput,
+      aspectRatio: aspectInput,
+      scriptOptions: scriptOptionsInput,
+    };
+    resetProject(newProject);
+    setAppState('editing');
+    localStorage.setItem("last_project_id", newProject.id);
+    setActiveSceneIndex(0);
+    logger.info("Project initialized", { sceneCount: scenes.length, castSize: cast.length });
+  };
+
+  const handleImportScript = async (parsed: ParsedScript, topic: string, fillGaps: boolean) => {
+    setIsGeneratingScript(true);
+    try {
+      const projectId = Date.now().toString();
+      const result = await GenerationService.completeImportedScript(parsed, castInput, {
+        id: projectId, topic, generationSettings: settingsInput, aspectRatio: aspectInput, scriptOptions: scriptOptionsInput,
+      }, fillGaps);
+      setShowScriptImport(false);
+      openNewProject(projectId, topic, result);
+    } catch (error: any) {
+      logger.error("Script import failed", error);
+      alert(`Failed to import the script.\n${error.message}`);
+    } finally {
+      setIsGeneratingScript(false);
+    }
+  };
+
+  // Shared by the dashboard draft cast and the open project's cast; `apply` stores the result
+  const handleGenerateCastPreview = async (
+    member: CastMember,
+    options: GenerationService.GenerationOptions,
+    apply: (url: string) => void
+  ) => {
+    if (!member.appearance) return;
+    setGeneratingCastIds(prev => [...prev, member.id]);
     try {
-        const url = await GeminiService.generateCharacterPreview(charDescInput);
-        setCharPreviewUrl(url);
-        logger.success("Character preview generated");
+        const url = await GenerationService.generateCharacterPreview(member, options);
+        apply(url);
+        logger.success(`Character preview generated for ${member.name || 'unnamed character'}`);
     } catch (error) {
         alert("Failed to generate character preview. Check settings.");
     } finally {
-        setIsGeneratingCharPreview(false);
+        setGeneratingCastIds(prev => prev.filter(id => id !== member.id));
     }
   };
 
+  const handleUpdateCast = (cast: CastMember[]) => {
+    if (!currentProject) return;
+    // Scenes drop characters whose cast member was removed
+    const castIds = new Set(cast.map(m => m.id));
+    const scenes = currentProject.scenes.map(s => s.characters.every(c => castIds.has(c.castId))
+      ? s
+      : { ...s, characters: s.characters.filter(c => castIds.has(c.castId)) });
+    setCurrentProject({ ...currentProject, cast, scenes }, { coalesceKey: 'cast' });
+  };
+
   const handleUpdateScene = (index: number, updatedField: Partial<Scene>) => {
     if (!currentProject) return;
     const newScenes = [...currentProject.scenes];
     // If key content changes, potentially invalidate preview
     newScenes[index] = { ...newScenes[index], ...updatedField }; 
-    setCurrentProject({ ...currentProject, scenes: newScenes });
+    // Typing in one field of one scene collapses into a single undo step
+    const coalesceKey = `scene:${newScenes[index].id}:${Object.keys(updatedField).join(',')}`;
+    setCurrentProject({ ...currentProject, scenes: newScenes }, { coalesceKey });
+  };
+
+  // Image inputs for Veo: references of the cast in the scene, the storyboard frame when the scene opts in
+  const conditioningFor = (scene: Scene): GenerationService.VideoConditioning => ({
+    referenceImageUrls: getSceneCast(scene, currentProject?.cast || [])
+      .map(m => m.referenceImageUrl)
+      .filter((url): url is string => !!url),
+    firstFrameUrl: scene.useFrameAsFirstFrame ? scene.previewImageUrl : undefined,
+  });
+
+  // Async results are applied by scene id so they land on the right scene even if
+  // the timeline was edited or reordered while the job was running. Status-only updates are
+  // transient so undo steps are only created when media actually lands.
+  const updateSceneById = (
+    sceneId: string,
+    patch: Partial<Scene> | ((scene: Scene) => Partial<Scene>),
+    options?: HistoryOptions
+  ) => {
+    setCurrentProject(prev => prev && {
+      ...prev,
+      scenes: prev.scenes.map(s => s.id === sceneId ? { ...s, ...(typeof patch === 'function' ? patch(s) : patch) } : s),
+    }, options);
+  };
+
+  type SceneUpdater = typeof updateSceneById;
+
+  // Renders resumed for a project that is not open. Results go to the editor if the user has opened
+  // the project meanwhile, otherwise straight into the library.
+  const sceneUpdaterFor = (projectId: string): SceneUpdater => (sceneId, patch, options) => {
+    if (openProjectIdRef.current === projectId) return updateSceneById(sceneId, patch, options);
+    ProjectStore.updateStoredProject(projectId, project => {
+      if (openProjectIdRef.current === projectId) {
+        updateSceneById(sceneId, patch, options);
+        return null;
+      }
+      return {
+        ...project,
+        scenes: project.scenes.map(s => s.id === sceneId ? { ...s, ...(typeof patch === 'function' ? patch(s) : patch) } : s),
+      };
+    }).catch(err => logger.error("Could not save a resumed render to its project", err));
+  };
+
+  // Clip generation goes through the shared queue, which handles concurrency, rate limits and retries.
+  // Resolves to whether the scene got a new take.
+  const enqueueClipJob = (
+    scene: Scene,
+    label: string,
+    model: string,
+    run: (signal: AbortSignal) => Promise<SceneTake[]>,
+    updateScene: SceneUpdater = updateSceneById
+  ): Promise<boolean> =>
+    generationQueue.enqueue({
+      label,
+      model,
+      onStart: () => updateScene(scene.id, { status: 'generating' }, { transient: true }),
+      run,
+    }).then(
+      (takes) => {
+        updateScene(scene.id, s => ({ ...addTakes(s, takes), pendingOperation: undefined }));
+        return true;
+      },
+      (err) => {
+        updateScene(scene.id, s => isCancelledError(err)
+          ? settleSceneStatus({ ...s, pendingOperation: undefined })
+          : { status: 'error', errorMsg: err?.message || "Generation failed", pendingOperation: undefined }, { transient: true });
+        return false;
+      }
+    );
+
+  const enqueueIdleJob = async (
+    scene: Scene,
+    label: string,
+    model: string,
+    run: (signal: AbortSignal) => Promise<string>,
+    updateScene: SceneUpdater = updateSceneById
+  ) => {
+    updateScene(scene.id, { idleStatus: 'generating' }, { transient: true });
+    try {
+        const url = await generationQueue.enqueue({ label, model, run });
+        updateScene(scene.id, { idleVideoUrl: url, idleStatus: 'completed', pendingIdleOperation: undefined });
+        logger.success(`Idle animation generated for scene ${scene.scene_number}`);
+        return true;
+    } catch (err) {
+        updateScene(scene.id, s => ({
+            idleStatus: isCancelledError(err) ? settleSceneStatus({ ...s, pendingIdleOperation: undefined }).idleStatus : 'error',
+            pendingIdleOperation: undefined,
+        }), { transient: true });
+        if (!isCancelledError(err)) logger.error(`Failed idle animation for scene ${scene.scene_number}`);
+        return false;
+    }
+  };
+
+  // Operation names are saved on the scene as soon as Veo accepts the job, so a reload can resume them.
+  // The returned callback also marks the operation as collected by this session until the attempt ends.
+  const trackOperation = (sceneId: string, field: 'pendingOperation' | 'pendingIdleOperation', names: string[]) =>
+    (pending: PendingOperation) => {
+      names.push(pending.name);
+      trackedOperations.current.add(pending.name);
+      updateSceneById(sceneId, { [field]: pending }, { transient: true });
+    };
+
+  const releaseOperations = (names: string[]) => names.forEach(name => trackedOperations.current.delete(name));
+
+  // Job body for a render that the queue may retry. Once Veo has accepted the render, later attempts
+  // collect that operation instead of starting (and paying for) another one.
+  const startOrResumeRender = <T,>(
+    sceneId: string,
+    field: 'pendingOperation' | 'pendingIdleOperation',
+    start: (signal: AbortSignal, onOperationStarted: (pending: PendingOperation) => void) => Promise<T>,
+    resume: (pending: PendingOperation, signal: AbortSignal) => Promise<T>
+  ) => {
+    let started: PendingOperation | undefined;
+    return async (signal: AbortSignal): Promise<T> => {
+      const names: string[] = [];
+      try {
+        if (started) {
+          names.push(started.name);
+          trackedOperations.current.add(started.name);
+          return await resume(started, signal);
+        }
+        const track = trackOperation(sceneId, field, names);
+        return await start(signal, (pending) => {
+          started = pending;
+          track(pending);
+        });
+      } finally {
+        releaseOperations(names);
+      }
+    };
+  };
+
+  const queueSceneVideo = (scene: Scene, project: Project): Promise<boolean> => {
+    updateSceneById(scene.id, { status: 'pending', errorMsg: undefined }, { transient: true });
+    const { videoModel } = GenerationService.resolveGenerationSettings(project.generationSettings, scene.generationOverrides);
+    return enqueueClipJob(scene, `Scene ${scene.scene_number} clip`, videoModel, startOrResumeRender(
+      scene.id,
+      'pendingOperation',
+      (signal, onOperationStarted) => GenerationService.generateSceneVideo(
+        scene, project.cast, project, conditioningFor(scene), project.candidatesPerScene, signal, onOperationStarted
+      ),
+      (pending, signal) => GenerationService.resumeSceneVideo(scene, pending, signal)
+    ));
+  };
+
+  // Veo keeps rendering while the tab is closed; collect operations saved before the reload.
+  // `updateScene` is set for projects resumed in the background without opening them.
+  // Operations stay tracked until the job settles, so opening the project during a retry does not collect them twice.
+  const resumePendingOperations = (project: Project, updateScene?: SceneUpdater) => {
+    const prefix = updateScene ? `${project.name}: ` : '';
+    let resumed = 0;
+    project.scenes.forEach(scene => {
+      const clipOperation = scene.pendingOperation;
+      if (clipOperation && !trackedOperations.current.has(clipOperation.name)) {
+        trackedOperations.current.add(clipOperation.name);
+        resumed++;
+        enqueueClipJob(
+          scene, `${prefix}Scene ${scene.scene_number} clip (resumed)`, clipOperation.model,
+          (signal) => GenerationService.resumeSceneVideo(scene, clipOperation, signal),
+          updateScene
+        ).then(() => releaseOperations([clipOperation.name]));
+      }
+      const idleOperation = scene.pendingIdleOperation;
+      if (idleOperation && !trackedOperations.current.has(idleOperation.name)) {
+        trackedOperations.current.add(idleOperation.name);
+        resumed++;
+        enqueueIdleJob(
+          scene, `${prefix}Scene ${scene.scene_number} idle loop (resumed)`, idleOperation.model,
+          (signal) => GenerationService.resumeIdleVideo(scene, idleOperation, signal),
+          updateScene
+        ).then(() => releaseOperations([idleOperation.name]));
+      }
+    });
+    if (resumed > 0) {
+      logger.info(`Resuming ${resumed} render(s) started before the page was closed`);
+      setShowQueue(true);
+    }
+  };
+
+  // Checks paid work against the project budget: a blocking budget refuses it, a warning budget asks.
+  // `alwaysAsk` shows the estimate even when the budget is fine.
+  const confirmSpend = (project: Project, estimate: GenerationService.CostEstimate, what: string, alwaysAsk = false) => {
+    if (estimate.cost <= 0) return true;
+    const spent = usageTracker.getTotals(project.id).cost;
+    const summary = `${what}: about ${formatCost(estimate.cost)}` +
+      (estimate.videoSeconds ? ` for ${estimate.videos} video(s), ${estimate.videoSeconds}s in total` : '') +
+      (estimate.images ? ` for ${estimate.images} image(s)` : '') +
+      `.\nSpent on this project so far: ${formatCost(spent)}` + (project.budget ? ` of ${formatCost(project.budget.limit)}.` : '.');
+
+    const overBudget = project.budget && spent + estimate.cost > project.budget.limit;
+    if (overBudget && project.budget!.mode === 'block') {
+      logger.warn(`${what} blocked by the project budget`, { estimate: estimate.cost, spent, limit: project.budget!.limit });
+      alert(`${summary}\n\nThis would exceed the project budget, generation is blocked. Raise the budget to continue.`);
+      return false;
+    }
+    if (overBudget) {
+      return window.confirm(`${summary}\n\nThis will exceed the project budget. Continue anyway?`);
+    }
+    return alwaysAsk ? window.confirm(`${summary}\n\nContinue?`) : true;
   };
 
   const generateAllVideos = async () => {
     if (!currentProject) return;
     
-    // Set all to pending first to lock UI or show status
-    const scenesToProcess = currentProject.scenes.map((s, idx) => ({ ...s, index: idx })).filter(s => !s.videoUrl);
+    // Scenes already queued or rendering are left to their running job
+    const scenesToProcess = currentProject.scenes.filter(s => !s.videoUrl && s.status !== 'pending' && s.status !== 'generating');
     
     if (scenesToProcess.length === 0) {
         logger.info("All scenes already generated");
@@ -130,91 +524,458 @@ const App: React.FC = () => {
         return;
     }
 
+    const estimate = GenerationService.estimateVideoCost(currentProject, scenesToProcess, currentProject.candidatesPerScene);
+    if (!confirmSpend(currentProject, estimate, `Generating ${scenesToProcess.length} scene(s)`, true)) return;
+
     logger.info(`Queueing generation for ${scenesToProcess.length} scenes`);
+    setShowQueue(true);
 
-    const updatedScenes = [...currentProject.scenes];
-    // Mark pending
-    scenesToProcess.forEach(s => updatedScenes[s.index].status = 'pending');
-    setCurrentProject({ ...currentProject, scenes: updatedScenes });
-
-    // Process sequentially to avoid rate limits and handle state updates clearly
-    for (const item of scenesToProcess) {
-       // Update to generating
-       updatedScenes[item.index].status = 'generating';
-       setCurrentProject({ ...currentProject, scenes: [...updatedScenes] });
-
-       try {
-         const url = await GeminiService.generateSceneVideo(item, currentProject.characterDescription);
-         updatedScenes[item.index].videoUrl = url;
-         updatedScenes[item.index].status = 'completed';
-       } catch (err) {
-         console.error(`Error scene ${item.scene_number}`, err);
-         updatedScenes[item.index].status = 'error';
-         updatedScenes[item.index].errorMsg = "Failed to generate";
-       }
-       // Update state after each generation so user sees progress
-       setCurrentProject({ ...currentProject, scenes: [...updatedScenes] });
-    }
+    const results = await Promise.all(scenesToProcess.map(scene => queueSceneVideo(scene, currentProject)));
+    const failed = results.filter(ok => !ok).length;
     setAppState('preview');
-    logger.success("Batch generation complete");
+    if (failed > 0) {
+      logger.warn(`Batch generation finished, ${failed} of ${results.length} scenes were not generated`);
+    } else {
+      logger.success("Batch generation complete");
+    }
   };
 
   const handleGenerateSingleScene = async (index: number) => {
       if (!currentProject) return;
-      const updatedScenes = [...currentProject.scenes];
-      updatedScenes[index].status = 'generating';
+      const scene = currentProject.scenes[index];
+      const estimate = GenerationService.estimateVideoCost(currentProject, [scene], currentProject.candidatesPerScene);
+      if (!confirmSpend(currentProject, estimate, `Scene ${scene.scene_number} clip`)) return;
       setPreviewMode('main');
-      setCurrentProject({ ...currentProject, scenes: updatedScenes });
+      await queueSceneVideo(currentProject.scenes[index], currentProject);
+  };
 
-      try {
-        const url = await GeminiService.generateSceneVideo(updatedScenes[index], currentProject.characterDescription);
-        updatedScenes[index].videoUrl = url;
-        updatedScenes[index].status = 'completed';
-      } catch (err) {
-        updatedScenes[index].status = 'error';
-        updatedScenes[index].errorMsg = "Generation failed";
-      }
-      setCurrentProject({ ...currentProject, scenes: updatedScenes });
+  const handleSelectTake = (index: number, takeId: string) => {
+    if (!currentProject) return;
+    const scene = currentProject.scenes[index];
+    updateSceneById(scene.id, s => selectTake(s, takeId));
+    setCompareTakeId(null);
+    setPreviewMode('main');
+    setIsPlaying(false);
+    logger.info(`Scene ${scene.scene_number} now uses another take`, { takeId });
+  };
+
+  const handleDeleteTake = (index: number, takeId: string) => {
+    if (!currentProject) return;
+    updateSceneById(currentProject.scenes[index].id, s => removeTake(s, takeId));
+    if (compareTakeId === takeId) setCompareTakeId(null);
   };
 
   const handleGenerateIdleScene = async (index: number) => {
     if (!currentProject) return;
-    const updatedScenes = [...currentProject.scenes];
-    updatedScenes[index].idleStatus = 'generating';
-    setCurrentProject({ ...currentProject, scenes: updatedScenes });
+    const scene = currentProject.scenes[index];
+    const project = currentProject;
+    if (!confirmSpend(project, GenerationService.estimateVideoCost(project, [scene]), `Scene ${scene.scene_number} idle loop`)) return;
+    const { videoModel } = GenerationService.resolveGenerationSettings(project.generationSettings, scene.generationOverrides);
+
+    const generated = await enqueueIdleJob(scene, `Scene ${scene.scene_number} idle loop`, videoModel, startOrResumeRender(
+      scene.id,
+      'pendingIdleOperation',
+      (signal, onOperationStarted) => GenerationService.generateIdleVideo(
+        scene, project.cast, project, conditioningFor(scene), signal, onOperationStarted
+      ),
+      (pending, signal) => GenerationService.resumeIdleVideo(scene, pending, signal)
+    ));
+    if (generated) setPreviewMode('idle'); // Auto switch to view result
+  };
 
+  // Resolves to the new image, or undefined when the job failed or was cancelled
+  const queueScenePreview = async (scene: Scene, project: Project): Promise<string | undefined> => {
+    updateSceneById(scene.id, { previewStatus: 'pending' }, { transient: true });
     try {
-        const url = await GeminiService.generateIdleVideo(updatedScenes[index], currentProject.characterDescription);
-        updatedScenes[index].idleVideoUrl = url;
-        updatedScenes[index].idleStatus = 'completed';
-        setPreviewMode('idle'); // Auto switch to view result
-        logger.success(`Idle animation generated for scene ${index + 1}`);
+        logger.info(`Generating preview image for scene ${scene.scene_number}`);
+        const { imageModel } = GenerationService.resolveGenerationSettings(project.generationSettings, scene.generationOverrides);
+        const url = await generationQueue.enqueue({
+            label: `Scene ${scene.scene_number} preview image`,
+            model: imageModel,
+            onStart: () => updateSceneById(scene.id, { previewStatus: 'generating' }, { transient: true }),
+            run: (signal) => GenerationService.generateScenePreview(scene, project.cast, project, signal),
+        });
+        updateSceneById(scene.id, { previewImageUrl: url, previewStatus: 'completed' });
+        logger.success(`Preview image generated for scene ${scene.scene_number}`);
+        return url;
     } catch (err) {
-        updatedScenes[index].idleStatus = 'error';
-        logger.error(`Failed idle animation for scene ${index + 1}`);
+        updateSceneById(scene.id, s => ({
+            previewStatus: isCancelledError(err) ? settleSceneStatus(s).previewStatus : 'error',
+        }), { transient: true });
+        if (!isCancelledError(err)) logger.error(`Failed to generate preview image for scene ${scene.scene_number}`);
+        return undefined;
     }
-    setCurrentProject({ ...currentProject, scenes: updatedScenes });
   };
 
+  const isPreviewBusy = (scene: Scene) => scene.previewStatus === 'pending' || scene.previewStatus === 'generating';
+
   const handleGenerateScenePreview = async (index: number) => {
     if (!currentProject) return;
-    const updatedScenes = [...currentProject.scenes];
-    // We don't change main status to generating, maybe add a localized loading state?
-    // For now we just let the button spin
+    const scene = currentProject.scenes[index];
+    if (isPreviewBusy(scene)) return;
+    if (!confirmSpend(currentProject, GenerationService.estimateImageCost(currentProject, [scene]), `Scene ${scene.scene_number} preview image`)) return;
+    await queueScenePreview(scene, currentProject);
+  };
+
+  // Frames for every scene that has none yet or whose last attempt failed. The queue runs them
+  // within its concurrency and rate limits and retries transient failures on its own.
+  const handleGenerateAllPreviews = async () => {
+    if (!currentProject) return;
+    const project = currentProject;
+    const scenesToProcess = project.scenes.filter(s => !isPreviewBusy(s) && (!s.previewImageUrl || s.previewStatus === 'error'));
+    if (scenesToProcess.length === 0) {
+      logger.info("Every scene already has a storyboard frame");
+      return;
+    }
+    const estimate = GenerationService.estimateImageCost(project, scenesToProcess);
+    if (!confirmSpend(project, estimate, `Generating ${scenesToProcess.length} storyboard frame(s)`, true)) return;
+
+    setShowQueue(true);
+    const urls = await Promise.all(scenesToProcess.map(scene => queueScenePreview(scene, project)));
+    const failed = urls.filter(url => !url).length;
+    if (failed > 0) {
+      logger.warn(`Storyboard frames finished, ${failed} of ${urls.length} scenes have no new frame`);
+    } else {
+      logger.success("All storyboard frames generated");
+    }
+  };
+
+  // Switches the project format. Existing media stays as takes in the old format unless the
+  // user asks to regenerate it; clips that start from their storyboard frame wait for the new frame.
+  const handleRetargetProject = (aspectRatio: AspectRatio) => {
+    if (!currentProject || aspectRatio === (currentProject.aspectRatio || DEFAULT_ASPECT_RATIO)) return;
+    const spec = getAspectSpec(aspectRatio);
+    const withPreview = currentProject.scenes.filter(s => s.previewImageUrl);
+    const withClip = currentProject.scenes.filter(s => s.videoUrl);
+    const regenerate = withPreview.length + withClip.length > 0 && window.confirm(
+      `Switch this project to ${spec.label}?\n\nRegenerate ${withPreview.length} preview image(s) and ${withClip.length} clip(s) in the new format now? ` +
+      `Press Cancel to only change the format; current clips stay available in each scene's take history.`
+    );
+
+    const estimate = GenerationService.combineEstimates(
+      GenerationService.estimateImageCost(currentProject, withPreview),
+      GenerationService.estimateVideoCost(currentProject, withClip)
+    );
+
+    // The stitched movie was rendered in the old format
+    const project: Project = { ...currentProject, aspectRatio, finalMovieUrl: undefined, finalMovieRenderedAt: undefined };
+    setCurrentProject(project);
+    logger.info(`Project format changed to ${spec.label}`, { regenerate });
+    if (!regenerate || !confirmSpend(project, estimate, 'Re-targeting')) return;
+
+    setShowQueue(true);
+    project.scenes.forEach(scene => {
+      const preview = scene.previewImageUrl ? queueScenePreview(scene, project) : Promise.resolve(undefined);
+      // Scenes already queued or rendering keep their running job
+      if (!scene.videoUrl || scene.status === 'pending' || scene.status === 'generating') return;
+      preview.then(url => queueSceneVideo(
+        // A frame in the old format is never used as the first frame of the new clip
+        scene.previewImageUrl ? { ...scene, previewImageUrl: url, useFrameAsFirstFrame: !!url && scene.useFrameAsFirstFrame } : scene,
+        project
+      ));
+    });
+  };
+
+  // Timeline editing
+  const selectSceneById = (scenes: Scene[], sceneId: string) => {
+    const index = scenes.findIndex(s => s.id === sceneId);
+    if (index >= 0) setActiveSceneIndex(index);
+  };
+
+  const insertScene = (afterIndex: number, scene: Scene, cast?: CastMember[]) => {
+    // Functional update: AI inserts resolve after a request, so the project may have changed meanwhile
+    setCurrentProject(prev => {
+      if (!prev) return prev;
+      const scenes = [...prev.scenes];
+      scenes.splice(afterIndex + 1, 0, scene);
+      return { ...prev, cast: cast || prev.cast, scenes: renumberScenes(scenes) };
+    });
+    setActiveSceneIndex(afterIndex + 1);
+    setPreviewMode('main');
+    setIsPlaying(false);
+  };
+
+  const handleAddScene = (afterIndex: number) => {
+    insertScene(afterIndex, createBlankScene());
+    logger.info(`Blank scene added after scene ${afterIndex + 1}`);
+  };
+
+  const handleInsertAiScene = async (afterIndex: number) => {
+    if (!currentProject || insertingAfterIndex !== null) return;
+    setInsertingAfterIndex(afterIndex);
+    try {
+      const { scene, cast } = await GenerationService.generateInsertedScene(
+        currentProject.topic, currentProject.scenes, currentProject.cast, afterIndex, currentProject
+      );
+      insertScene(afterIndex, scene, cast);
+    } catch (err) {
+      alert("Failed to generate a new scene. Check your API Key in Settings.");
+    } finally {
+      setInsertingAfterIndex(null);
+    }
+  };
+
+  const handleRewriteScene = async (index: number, action: SceneRewriteAction, instruction: string) => {
+    if (!currentProject || rewritingSceneId || rewriteProposal) return;
+    const scene = currentProject.scenes[index];
+    setRewritingSceneId(scene.id);
+    try {
+      const result = await GenerationService.rewriteScene(
+        currentProject.topic, currentProject.scenes, currentProject.cast, index, instruction,
+        action === 'continue' ? 'continue' : 'replace', currentProject
+      );
+      setRewriteProposal({ sceneId: scene.id, action, ...result });
+    } catch (err) {
+      alert("Failed to rewrite the scene. Check your API Key in Settings.");
+    } finally {
+      setRewritingSceneId(null);
+    }
+  };
+
+  // Applies the reviewed rewrite; the scene is found by id since it may have moved while the review was open
+  const handleAcceptRewrite = (fields: SceneScriptField[]) => {
+    if (!currentProject || !rewriteProposal) return;
+    const { sceneId, action, scene, cast } = rewriteProposal;
+    setRewriteProposal(null);
+    const index = currentProject.scenes.findIndex(s => s.id === sceneId);
+    if (index === -1) return;
+
+    if (action === 'continue') {
+      insertScene(index, scene, cast);
+      logger.info(`AI scene inserted after scene ${index + 1}`);
+      return;
+    }
+    // Cast members the rewrite introduced are only added when its characters are taken
+    const addedCast = fields.includes('characters') ? cast.filter(m => !currentProject.cast.some(c => c.id === m.id)) : [];
+    setCurrentProject({
+      ...currentProject,
+      cast: [...currentProject.cast, ...addedCast],
+      scenes: currentProject.scenes.map(s => s.id === sceneId ? applySceneFields(s, scene, fields) : s),
+    });
+    logger.info(`Scene ${index + 1} rewrite applied`, { fields });
+  };
+
+  const handleDuplicateScene = (index: number) => {
+    if (!currentProject) return;
+    insertScene(index, duplicateScene(currentProject.scenes[index]));
+    logger.info(`Scene ${index + 1} duplicated`);
+  };
+
+  const handleDeleteScene = (index: number) => {
+    if (!currentProject || currentProject.scenes.length <= 1) return;
+    const scene = currentProject.scenes[index];
+    const hasMedia = scene.videoUrl || scene.idleVideoUrl || scene.previewImageUrl || scene.voiceoverUrl;
+    if (hasMedia && !window.confirm(`Delete scene ${scene.scene_number} and its generated media?`)) return;
+
+    const activeId = currentProject.scenes[activeSceneIndex]?.id;
+    const scenes = renumberScenes(currentProject.scenes.filter((_, i) => i !== index));
+    setCurrentProject({ ...currentProject, scenes });
+    if (activeId === scene.id) {
+      setActiveSceneIndex(Math.min(index, scenes.length - 1));
+    } else if (activeId) {
+      selectSceneById(scenes, activeId);
+    }
+    setIsPlaying(false);
+    logger.info(`Scene ${scene.scene_number} deleted`);
+  };
+
+  const handleReorderScene = (from: number, to: number) => {
+    if (!currentProject || from === to) return;
+    const activeId = currentProject.scenes[activeSceneIndex]?.id;
+    const scenes = moveScene(currentProject.scenes, from, to);
+    setCurrentProject({ ...currentProject, scenes });
+    if (activeId) selectSceneById(scenes, activeId);
+    logger.info(`Scene moved from position ${from + 1} to ${to + 1}`);
+  };
+
+  const openProjectInEditor = (project: Project) => {
+    openProjectIdRef.current = project.id;
+    resetProject(project);
+    setActiveSceneIndex(0);
+    setPreviewMode('main');
+    setIsPlaying(false);
+    setAppState('editing');
+    localStorage.setItem("last_project_id", project.id);
+    resumePendingOperations(project);
+  };
+
+  const openStoredProject = (project: Project) => {
+    // Local jobs do not survive a reload: scenes with a saved Veo operation are resumed, the rest go back to draft
+    project.scenes = project.scenes.map(settleSceneStatus);
+    openProjectInEditor(project);
+    logger.info("Project opened", { name: project.name, sceneCount: project.scenes.length });
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const project = await ProjectStore.loadProject(id);
+      if (!project) {
+        logger.warn("Project not found in library", { id });
+        return refreshProjectList();
+      }
+      openStoredProject(project);
+    } catch (err) {
+      logger.error("Failed to open project", err);
+      alert("Failed to open project.");
+    }
+  };
+
+  // After a reload, collect the renders still in flight in every stored project. The last project is
+  // reopened; the others are resumed in the background. The ref keeps StrictMode's double mount from resuming twice.
+  const resumeCheckedRef = useRef(false);
+  useEffect(() => {
+    if (resumeCheckedRef.current) return;
+    resumeCheckedRef.current = true;
+    const lastId = localStorage.getItem("last_project_id");
+    ProjectStore.listProjects()
+      .then(async summaries => {
+        for (const summary of summaries.filter(p => p.pendingRenders > 0)) {
+          const project = await ProjectStore.loadProject(summary.id);
+          if (!project) continue;
+          if (project.id === lastId) openStoredProject(project);
+          else resumePendingOperations(project, sceneUpdaterFor(project.id));
+        }
+      })
+      .catch(err => logger.warn("Could not check stored projects for pending renders", err));
+  }, []);
+
+  const handleDuplicateProject = async (id: string) => {
+    try {
+      await ProjectStore.duplicateProject(id);
+      logger.success("Project duplicated");
+    } catch (err) {
+      logger.error("Failed to duplicate project", err);
+    }
+    refreshProjectList();
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    if (currentProject?.id === id) {
+      // Autosave picks up the new name for the open project
+      setCurrentProject({ ...currentProject, name });
+    } else {
+      try {
+        await ProjectStore.renameProject(id, name);
+      } catch (err) {
+        logger.error("Failed to rename project", err);
+      }
+    }
+    setSavedProjects(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await ProjectStore.deleteProject(id);
+      usageTracker.forgetProject(id);
+      if (currentProject?.id === id) resetProject(null);
+      if (localStorage.getItem("last_project_id") === id) localStorage.removeItem("last_project_id");
+      logger.info("Project deleted", { id });
+    } catch (err) {
+      logger.error("Failed to delete project", err);
+    }
+    refreshProjectList();
+  };
+
+  const handleImportProject = async () => {
+    if (!FileService.supportsFolderPicker()) {
+      // Fallback: let the user multi-select the exported files instead
+      importInputRef.current?.click();
+      return;
+    }
+    try {
+      const project = await FileService.loadProjectFromFolder();
+      if (project) openProjectInEditor(project);
+    } catch (err: any) {
+      alert(`Failed to import project.\n${err.message}`);
+    }
+  };
+
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      openProjectInEditor(await FileService.loadProjectFromFiles(files));
+    } catch (err: any) {
+      logger.error("Import failed", err);
+      alert(`Failed to import project.\n${err.message}`);
+    }
+  };
+
+  const handleRenderFinalMovie = async () => {
+    if (!currentProject || renderProgress !== null) return;
+    const project = currentProject;
+    if (!RenderService.canRecordMp4() && !window.confirm(
+      "This browser cannot record MP4, so the movie will be rendered as WebM. Some players and upload forms do not accept WebM; a recent Chrome or Edge records MP4.\n\nRender as WebM anyway?"
+    )) return;
+    setRenderProgress(0);
+    try {
+      const blob = await RenderService.renderFinalMovie(project, setRenderProgress);
+      const url = URL.createObjectURL(blob);
+      setCurrentProject(prev => prev && prev.id === project.id
+        ? { ...prev, finalMovieUrl: url, finalMovieRenderedAt: Date.now() }
+        : prev, { transient: true });
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_final.${blob.type.includes('webm') ? 'webm' : 'mp4'}`;
+      link.click();
+    } catch (err: any) {
+      alert(`Failed to render final movie.\n${err.message}`);
+    } finally {
+      setRenderProgress(null);
+    }
+  };
+
+  const handleExportStoryboard = async (format: StoryboardFormat) => {
+    if (!currentProject || storyboardProgress !== null) return;
+    const project = currentProject;
+    setStoryboardProgress(0);
+    try {
+      const blob = format === 'pdf'
+        ? await StoryboardService.exportStoryboardPdf(project, setStoryboardProgress)
+        : await StoryboardService.exportStoryboardHtml(project);
+      FileService.downloadBlob(blob, `${FileService.projectFileBase(project)}_storyboard.${format}`);
+    } catch (err: any) {
+      logger.error("Storyboard export failed", err);
+      alert(`Failed to export the storyboard.\n${err.message}`);
+    } finally {
+      setStoryboardProgress(null);
+    }
+  };
+
+  const handleGenerateVoiceover = async (index: number) => {
+    if (!currentProject) return;
+    const scene = currentProject.scenes[index];
+    if (!scene.dialogue.trim()) {
+        logger.warn(`Scene ${scene.scene_number} has no dialogue to voice`);
+        return;
+    }
+    if (!confirmSpend(currentProject, VoiceoverService.estimateVoiceoverCost(scene.dialogue), `Scene ${scene.scene_number} voiceover`)) return;
+    updateSceneById(scene.id, { voiceoverStatus: 'generating' }, { transient: true });
+
     try {
-        logger.info(`Generating preview image for scene ${index + 1}`);
-        const url = await GeminiService.generateScenePreview(updatedScenes[index], currentProject.characterDescription);
-        updatedScenes[index].previewImageUrl = url;
-        setCurrentProject({ ...currentProject, scenes: updatedScenes });
-        logger.success("Scene preview image generated");
+        const voiceId = getSpeaker(scene, currentProject.cast)?.voice;
+        const url = await VoiceoverService.synthesizeVoiceover(scene.dialogue, voiceId, currentProject.id);
+        updateSceneById(scene.id, { voiceoverUrl: url, voiceoverStatus: 'completed' });
     } catch (err) {
-        logger.error("Failed to generate scene preview image");
+        updateSceneById(scene.id, { voiceoverStatus: 'error' }, { transient: true });
     }
   };
 
   const handleExportProject = async () => {
     if (!currentProject) return;
-    await FileService.saveProjectToFolder(currentProject);
+    try {
+      await FileService.saveProjectToFolder(currentProject);
+    } catch (err: any) {
+      logger.error("Project export failed", err);
+      alert(`Failed to export the project.\n${err.message}`);
+    }
+  };
+
+  const handleUpdateCaptionStyle = (captionStyle: CaptionStyle) => {
+    if (!currentProject) return;
+    setCurrentProject({ ...currentProject, captionStyle }, { coalesceKey: 'captionStyle' });
   };
 
   // Player Logic
@@ -256,6 +1017,13 @@ const App: React.FC = () => {
   };
   
   const activeScene = currentProject?.scenes[activeSceneIndex];
+  const activeTakes = activeScene ? getSceneTakes(activeScene) : [];
+  const activeTake = activeScene ? activeTakes.find(t => isActiveTake(activeScene, t)) : undefined;
+  const compareTake = activeTakes.find(t => t.id === compareTakeId);
+  const latestCandidates = activeScene ? getLatestBatch(activeScene) : [];
+  const captionStyle = currentProject?.captionStyle || DEFAULT_CAPTION_STYLE;
+  const aspectSpec = getAspectSpec(currentProject?.aspectRatio);
+  const voiceoverProvider = VoiceoverService.getVoiceoverProvider();
 
   // Reset view mode when changing scenes manually
   const onSceneSelect = (idx: number) => {
@@ -282,11 +1050,61 @@ const App: React.FC = () => {
               <>
                 <span className="text-sm text-gray-400 hidden md:block truncate max-w-[200px]">Project: {currentProject.name}</span>
                 
+                {/* Generation Queue */}
+                {(activeJobCount > 0 || showQueue) && (
+                    <button
+                        onClick={() => setShowQueue(!showQueue)}
+                        className={`flex items-center space-x-1 px-2 py-1 rounded-lg text-xs font-bold transition-colors ${
+                            showQueue ? 'bg-blue-900/40 text-blue-300' : 'text-gray-400 hover:text-white'
+                        }`}
+                        title="Generation queue"
+                    >
+                        <QueueListIcon className="w-4 h-4" />
+                        {activeJobCount > 0 && <span>{activeJobCount}</span>}
+                    </button>
+                )}
+
+                {/* Undo / Redo */}
+                <div className="flex items-center">
+                    <button
+                        onClick={undo}
+                        disabled={!canUndo}
+                        className="p-2 text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+                        title="Undo (Ctrl+Z)"
+                    >
+                        <ArrowUturnLeftIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={redo}
+                        disabled={!canRedo}
+                        className="p-2 text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+                        title="Redo (Ctrl+Shift+Z)"
+                    >
+                        <ArrowUturnRightIcon className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {/* Storyboard Frames */}
+                {appState === 'editing' && (
+                    <button
+                        onClick={() => setShowStoryboardGrid(true)}
+                        className="flex items-center space-x-2 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg hover:bg-gray-700 text-sm font-bold transition-colors"
+                        title="Review and generate the storyboard frames of all scenes"
+                    >
+                        {currentProject.scenes.some(isPreviewBusy)
+                            ? <ArrowPathIcon className="w-4 h-4 animate-spin text-purple-400" />
+                            : <Squares2X2Icon className="w-4 h-4 text-gray-300" />}
+                        <span className="hidden sm:inline">
+                            Frames {currentProject.scenes.filter(s => s.previewImageUrl).length}/{currentProject.scenes.length}
+                        </span>
+                    </button>
+                )}
+
                 {/* Generate Button */}
                 {appState === 'editing' && (
                     <button 
                         onClick={generateAllVideos}
-                        disabled={currentProject.scenes.some(s => s.status === 'generating')}
+                        disabled={currentProject.scenes.some(s => s.status === 'generating' || s.status === 'pending')}
                         className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-green-600 to-teal-600 rounded-lg hover:from-green-500 hover:to-teal-500 disabled:opacity-50 text-sm font-bold shadow-lg transition-transform hover:scale-105"
                     >
                         <VideoCameraIcon className="w-4 h-4" />
@@ -305,6 +1123,25 @@ const App: React.FC = () => {
                     </button>
                  )}
 
+                 {/* Render Final Movie Button */}
+                 {currentProject.scenes.some(s => s.status === 'completed') && (
+                    <button
+                        onClick={handleRenderFinalMovie}
+                        disabled={renderProgress !== null}
+                        className="flex items-center space-x-2 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg hover:bg-gray-700 disabled:opacity-70 text-sm font-bold transition-colors"
+                        title="Stitch all completed scenes into one video"
+                    >
+                        {renderProgress !== null
+                            ? <ArrowPathIcon className="w-4 h-4 animate-spin text-purple-400" />
+                            : <FilmIcon className="w-4 h-4 text-gray-300" />}
+                        <span className="hidden sm:inline">
+                            {renderProgress !== null ? `Rendering ${Math.round(renderProgress * 100)}%` : 'Render Final Movie'}
+                        </span>
+                    </button>
+                 )}
+
+                 <StoryboardExportMenu progress={storyboardProgress} onExport={handleExportStoryboard} />
+
                  {/* Export Button */}
                  <button
                     onClick={handleExportProject}
@@ -347,7 +1184,7 @@ const App: React.FC = () => {
             <div className="max-w-xl w-full space-y-8 my-auto">
                 <div className="text-center">
                     <h2 className="text-4xl font-extrabold text-white mb-4">Create Magic with Veo</h2>
-                    <p className="text-gray-400">Generate storyboarded vertical videos from a simple text prompt.</p>
+                    <p className="text-gray-400">Generate storyboarded short videos from a simple text prompt.</p>
                 </div>
 
                 <div className="bg-gray-800 p-8 rounded-2xl border border-gray-700 shadow-2xl space-y-6">
@@ -363,46 +1200,41 @@ const App: React.FC = () => {
                     </div>
 
                     <div>
-                         <label className={labelClass}>Main Character Appearance</label>
-                         <div className="flex gap-4">
-                             <div className="flex-1">
-                                <textarea 
-                                    value={charDescInput}
-                                    onChange={(e) => setCharDescInput(e.target.value)}
-                                    className="w-full bg-gray-950 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none placeholder-gray-500 h-24 text-sm shadow-sm"
-                                    placeholder="e.g., A cute Shiba Inu wearing sunglasses"
-                                />
-                             </div>
-                             
-                             {/* Character Preview Box */}
-                             <div className="w-24 flex flex-col space-y-2">
-                                <div className="w-24 h-24 bg-gray-800 border border-gray-700 rounded-lg overflow-hidden flex items-center justify-center relative group">
-                                    {charPreviewUrl ? (
-                                        <img src={charPreviewUrl} alt="Character Preview" className="w-full h-full object-cover" />
-                                    ) : (
-                                        <EyeIcon className="w-8 h-8 text-gray-600" />
-                                    )}
-                                    {isGeneratingCharPreview && (
-                                        <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
-                                            <ArrowPathIcon className="w-6 h-6 text-purple-500 animate-spin" />
-                                        </div>
-                                    )}
-                                </div>
+                         <label className={labelClass}>Cast</label>
+                         <CastEditor
+                            cast={castInput}
+                            onChange={setCastInput}
+                            generatingIds={generatingCastIds}
+                            onGeneratePreview={(member) => handleGenerateCastPreview(member, { generationSettings: settingsInput }, url =>
+                                setCastInput(prev => prev.map(m => m.id === member.id ? { ...m, referenceImageUrl: url } : m)))}
+                         />
+                         <p className="text-xs text-gray-500 mt-1 ml-1">Appearances and reference images are applied to every scene a character is in.</p>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Format</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {ASPECT_RATIOS.map(ratio => (
                                 <button
-                                    onClick={handleGenerateCharPreview}
-                                    disabled={!charDescInput || isGeneratingCharPreview}
-                                    className="text-xs bg-gray-700 hover:bg-gray-600 text-white py-1 px-2 rounded w-full flex items-center justify-center"
+                                    key={ratio.id}
+                                    onClick={() => setAspectInput(ratio.id)}
+                                    className={`py-2 rounded-lg text-xs font-bold border transition-colors ${
+                                        aspectInput === ratio.id ? 'bg-purple-600 border-purple-500 text-white' : 'border-gray-600 text-gray-400 hover:text-white'
+                                    }`}
                                 >
-                                    {charPreviewUrl ? 'Update' : 'Preview'}
+                                    {ratio.label}
                                 </button>
-                             </div>
-                         </div>
-                         <p className="text-xs text-gray-500 mt-1 ml-1">This description is applied to every scene generation.</p>
+                            ))}
+                        </div>
                     </div>
 
+                    <ScriptOptionsPanel options={scriptOptionsInput} onChange={setScriptOptionsInput} />
+
+                    <GenerationSettingsPanel settings={settingsInput} onChange={setSettingsInput} />
+
                     <button 
                         onClick={handleStartProject}
-                        disabled={isGeneratingScript || !topicInput}
+                        disabled={isGeneratingScript || !topicInput || castInput.every(m => !m.name.trim())}
                         className="w-full py-4 bg-purple-600 rounded-xl font-bold text-lg hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2 text-white"
                     >
                         {isGeneratingScript ? (
@@ -415,6 +1247,40 @@ const App: React.FC = () => {
                         )}
                     </button>
                 </div>
+
+                <div className="flex justify-center">
+                    <button
+                        onClick={handleImportProject}
+                        className="flex items-center space-x-2 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg hover:bg-gray-700 text-sm font-bold text-gray-300 transition-colors"
+                    >
+                        <ArrowUpTrayIcon className="w-4 h-4" />
+                        <span>Import Project Folder</span>
+                    </button>
+                    <button
+                        onClick={() => setShowScriptImport(true)}
+                        className="ml-2 flex items-center space-x-2 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg hover:bg-gray-700 text-sm font-bold text-gray-300 transition-colors"
+                    >
+                        <DocumentTextIcon className="w-4 h-4" />
+                        <span>Import Script</span>
+                    </button>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        multiple
+                        accept=".json,video/*,image/*"
+                        className="hidden"
+                        onChange={handleImportFiles}
+                    />
+                </div>
+
+                <ProjectLibrary
+                    projects={savedProjects}
+                    activeProjectId={currentProject?.id}
+                    onOpen={handleOpenProject}
+                    onDuplicate={handleDuplicateProject}
+                    onRename={handleRenameProject}
+                    onDelete={handleDeleteProject}
+                />
             </div>
           </div>
         )}
@@ -437,8 +1303,43 @@ const App: React.FC = () => {
                             </span>
                         </div>
 
+                        {/* Project Cast */}
+                        <div className="bg-gray-800/30 rounded-lg border border-gray-700">
+                            <button
+                                onClick={() => setShowCastPanel(!showCastPanel)}
+                                className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-gray-400 uppercase tracking-wider hover:text-white"
+                            >
+                                <span className="flex items-center gap-2">
+                                    <UserGroupIcon className="w-4 h-4 text-purple-400" />
+                                    Project Cast ({currentProject.cast.length})
+                                </span>
+                                {showCastPanel ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+                            </button>
+                            {showCastPanel && (
+                                <div className="px-4 pb-4">
+                                    <CastEditor
+                                        cast={currentProject.cast}
+                                        onChange={handleUpdateCast}
+                                        generatingIds={generatingCastIds}
+                                        voices={voiceoverProvider.voices}
+                                        onGeneratePreview={(member) => handleGenerateCastPreview(member, currentProject, url =>
+                                            setCurrentProject(prev => prev && {
+                                                ...prev,
+                                                cast: prev.cast.map(m => m.id === member.id ? { ...m, referenceImageUrl: url } : m),
+                                            }))}
+                                    />
+                                </div>
+                            )}
+                        </div>
+
                         {/* Editable Fields */}
                         <div className="space-y-4">
+                            <SceneRewriteBar
+                                busy={rewritingSceneId === activeScene.id}
+                                disabled={!!rewritingSceneId || !!rewriteProposal}
+                                onRewrite={(action, instruction) => handleRewriteScene(activeSceneIndex, action, instruction)}
+                            />
+
                             <div>
                                 <label className={labelClass}>Description</label>
                                 <textarea 
@@ -448,29 +1349,15 @@ const App: React.FC = () => {
                                 />
                             </div>
                             
-                            <div className="grid grid-cols-2 gap-4">
-                                <div>
-                                    <label className={labelClass}>Character Action</label>
-                                    <input 
-                                        type="text" 
-                                        value={activeScene.character.actions.join(', ')}
-                                        onChange={(e) => handleUpdateScene(activeSceneIndex, { 
-                                            character: { ...activeScene.character, actions: e.target.value.split(', ') } 
-                                        })}
-                                        className={inputClass}
-                                    />
-                                </div>
-                                <div>
-                                    <label className={labelClass}>Expression</label>
-                                    <input 
-                                        type="text" 
-                                        value={activeScene.character.expression}
-                                        onChange={(e) => handleUpdateScene(activeSceneIndex, { 
-                                            character: { ...activeScene.character, expression: e.target.value } 
-                                        })}
-                                        className={inputClass}
-                                    />
-                                </div>
+                            <div>
+                                <label className={labelClass}>Characters in Scene</label>
+                                <SceneCastEditor
+                                    characters={activeScene.characters}
+                                    cast={currentProject.cast}
+                                    onChange={(characters) => handleUpdateScene(activeSceneIndex, { characters })}
+                                    inputClass={inputClass}
+                                    labelClass={labelClass}
+                                />
                             </div>
                             
                             {/* Idle Animation Config */}
@@ -506,6 +1393,42 @@ const App: React.FC = () => {
                                 />
                             </div>
 
+                            {/* Voiceover Config */}
+                            <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700">
+                                <label className={`${labelClass} flex items-center gap-2 mb-3`}>
+                                    <SpeakerWaveIcon className="w-3 h-3 text-green-400" />
+                                    Voiceover
+                                </label>
+                                <div className="flex gap-2">
+                                    <select
+                                        value={getSpeaker(activeScene, currentProject.cast)?.id || ''}
+                                        onChange={(e) => handleUpdateScene(activeSceneIndex, { speakerCastId: e.target.value })}
+                                        className={`${inputClass} flex-1`}
+                                        title="Speaker (voices are set per character in the cast)"
+                                    >
+                                        {getSceneCast(activeScene, currentProject.cast).length === 0 && <option value="">No characters in scene</option>}
+                                        {getSceneCast(activeScene, currentProject.cast).map(m => (
+                                            <option key={m.id} value={m.id}>
+                                                {m.name} • {voiceoverProvider.voices.find(v => v.id === m.voice)?.label || 'Default voice'}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        onClick={() => handleGenerateVoiceover(activeSceneIndex)}
+                                        disabled={activeScene.voiceoverStatus === 'generating' || !activeScene.dialogue.trim()}
+                                        className="px-4 bg-green-700 hover:bg-green-600 text-white border border-green-600 rounded-lg text-xs font-bold whitespace-nowrap disabled:opacity-50 transition-colors shadow-sm"
+                                    >
+                                        {activeScene.voiceoverStatus === 'generating' ? '...' : activeScene.voiceoverUrl ? 'Redo Voice' : 'Gen Voice'}
+                                    </button>
+                                </div>
+                                {activeScene.voiceoverStatus === 'error' && (
+                                    <p className="text-xs text-red-400 mt-2">Voiceover failed, check the logs for details.</p>
+                                )}
+                                {activeScene.voiceoverUrl && !activeScene.videoUrl && (
+                                    <audio src={activeScene.voiceoverUrl} controls className="w-full mt-3 h-8" />
+                                )}
+                            </div>
+
                              <div>
                                 <label className={labelClass}>Background Setting</label>
                                 <textarea 
@@ -515,28 +1438,86 @@ const App: React.FC = () => {
                                     placeholder="Describe the environment, lighting, time of day..."
                                 />
                             </div>
+
+                            <GenerationSettingsPanel
+                                settings={activeScene.generationOverrides || {}}
+                                onChange={(generationOverrides) => handleUpdateScene(activeSceneIndex, { generationOverrides })}
+                                projectSettings={GenerationService.resolveGenerationSettings(currentProject.generationSettings)}
+                            />
+
+                            <SceneAdvancedEditor
+                                advanced={activeScene.advanced || {}}
+                                onChange={(advanced) => handleUpdateScene(activeSceneIndex, { advanced })}
+                                inputClass={inputClass}
+                                labelClass={labelClass}
+                            />
+
+                            <PromptPreview scene={activeScene} project={currentProject} />
+                        </div>
+
+                        <CaptionStylePanel style={captionStyle} onChange={handleUpdateCaptionStyle} />
+
+                        <GenerationSettingsPanel
+                            settings={currentProject.generationSettings || {}}
+                            onChange={(generationSettings) => setCurrentProject({ ...currentProject, generationSettings })}
+                        />
+
+                        <PromptTemplatesPanel
+                            templates={currentProject.promptTemplates || {}}
+                            visualStyle={currentProject.visualStyle}
+                            onChange={(promptTemplates) => setCurrentProject({ ...currentProject, promptTemplates }, { coalesceKey: 'promptTemplates' })}
+                            onChangeStyle={(visualStyle) => setCurrentProject({ ...currentProject, visualStyle }, { coalesceKey: 'visualStyle' })}
+                        />
+
+                        <div className="flex items-center justify-between text-xs text-gray-300">
+                            <span>Project format</span>
+                            <select
+                                value={aspectSpec.id}
+                                onChange={(e) => handleRetargetProject(e.target.value as AspectRatio)}
+                                className="bg-gray-950 border border-gray-700 rounded-lg px-2 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                                title="Re-target the project; you will be asked whether to regenerate existing media"
+                            >
+                                {ASPECT_RATIOS.map(ratio => (
+                                    <option key={ratio.id} value={ratio.id}>{ratio.label}</option>
+                                ))}
+                            </select>
                         </div>
 
+                        <UsagePanel
+                            projectId={currentProject.id}
+                            budget={currentProject.budget}
+                            onChangeBudget={(budget) => setCurrentProject({ ...currentProject, budget }, { coalesceKey: 'budget' })}
+                        />
+
                         {/* Action Buttons */}
                         <div className="pt-4 grid grid-cols-2 gap-4">
                             {/* Preview Image Button */}
                              <button
                                 onClick={() => handleGenerateScenePreview(activeSceneIndex)}
-                                className="py-3 bg-gray-800 border border-gray-600 rounded-lg hover:bg-gray-700 font-bold flex items-center justify-center space-x-2 text-gray-200 transition-colors"
+                                disabled={isPreviewBusy(activeScene)}
+                                className={`py-3 bg-gray-800 border rounded-lg hover:bg-gray-700 font-bold flex items-center justify-center space-x-2 text-gray-200 disabled:opacity-50 transition-colors ${
+                                    activeScene.previewStatus === 'error' ? 'border-red-500/60' : 'border-gray-600'
+                                }`}
+                                title={activeScene.previewStatus === 'error' ? 'The last preview image failed, click to retry' : undefined}
                              >
-                                <PhotoIcon className="w-5 h-5" />
-                                <span>{activeScene.previewImageUrl ? 'Update Preview' : 'Gen Preview Image'}</span>
+                                {isPreviewBusy(activeScene) ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : <PhotoIcon className="w-5 h-5" />}
+                                <span>
+                                    {activeScene.previewStatus === 'pending' ? 'Queued...'
+                                        : activeScene.previewStatus === 'generating' ? 'Drawing...'
+                                        : activeScene.previewStatus === 'error' ? 'Retry Preview'
+                                        : activeScene.previewImageUrl ? 'Update Preview' : 'Gen Preview Image'}
+                                </span>
                              </button>
 
                             {/* Generate Video Button */}
-                            {!activeScene.videoUrl || activeScene.status === 'error' || activeScene.status === 'draft' ? (
+                            {!activeScene.videoUrl || activeScene.status !== 'completed' ? (
                                 <button 
                                     onClick={() => handleGenerateSingleScene(activeSceneIndex)}
-                                    disabled={activeScene.status === 'generating'}
+                                    disabled={activeScene.status === 'generating' || activeScene.status === 'pending'}
                                     className="py-3 bg-purple-600 rounded-lg hover:bg-purple-500 font-bold flex items-center justify-center space-x-2 disabled:opacity-50 text-white shadow-lg"
                                 >
-                                    {activeScene.status === 'generating' ? <ArrowPathIcon className="w-5 h-5 animate-spin"/> : <VideoCameraIcon className="w-5 h-5" />}
-                                    <span>{activeScene.status === 'generating' ? 'Rendering...' : 'Generate Clip'}</span>
+                                    {activeScene.status === 'generating' || activeScene.status === 'pending' ? <ArrowPathIcon className="w-5 h-5 animate-spin"/> : <VideoCameraIcon className="w-5 h-5" />}
+                                    <span>{activeScene.status === 'generating' ? 'Rendering...' : activeScene.status === 'pending' ? 'Queued...' : 'Generate Clip'}</span>
                                 </button>
                             ) : (
                                 <button 
@@ -549,6 +1530,32 @@ const App: React.FC = () => {
                             )}
                         </div>
                         
+                        <div className="flex items-center justify-between text-xs text-gray-300">
+                            <span>Candidates per generation</span>
+                            <select
+                                value={currentProject.candidatesPerScene || 1}
+                                onChange={(e) => setCurrentProject({ ...currentProject, candidatesPerScene: Number(e.target.value) })}
+                                className="bg-gray-950 border border-gray-700 rounded-lg px-2 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                                title="Applies to every scene of this project"
+                            >
+                                {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(n => (
+                                    <option key={n} value={n}>{n}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <label className={`flex items-center gap-2 text-xs ${activeScene.previewImageUrl ? 'text-gray-300 cursor-pointer' : 'text-gray-600'}`}>
+                            <input
+                                type="checkbox"
+                                checked={!!activeScene.useFrameAsFirstFrame && !!activeScene.previewImageUrl}
+                                disabled={!activeScene.previewImageUrl}
+                                onChange={(e) => handleUpdateScene(activeSceneIndex, { useFrameAsFirstFrame: e.target.checked })}
+                                className="accent-purple-500"
+                            />
+                            Use storyboard frame as first frame
+                            {!activeScene.previewImageUrl && <span className="text-gray-600">(generate a preview image first)</span>}
+                        </label>
+
                         {activeScene.videoUrl && (
                             <div className="mt-2 text-center">
                                 <a 
@@ -562,6 +1569,31 @@ const App: React.FC = () => {
                                 </a>
                             </div>
                         )}
+
+                        {latestCandidates.length > 1 && (
+                            <div className="space-y-2">
+                                <label className={labelClass}>Pick a Candidate</label>
+                                <CandidateGrid
+                                    scene={activeScene}
+                                    aspectRatio={aspectSpec.id}
+                                    onSelect={(takeId) => handleSelectTake(activeSceneIndex, takeId)}
+                                />
+                            </div>
+                        )}
+
+                        {activeTakes.length > 1 && (
+                            <div className="space-y-2">
+                                <label className={labelClass}>Takes ({activeTakes.length})</label>
+                                <TakeHistory
+                                    scene={activeScene}
+                                    compareTakeId={compareTakeId}
+                                    onSelect={(takeId) => handleSelectTake(activeSceneIndex, takeId)}
+                                    onCompare={setCompareTakeId}
+                                    onDelete={(takeId) => handleDeleteTake(activeSceneIndex, takeId)}
+                                    onUseSeed={(seed) => handleUpdateScene(activeSceneIndex, { advanced: { ...activeScene.advanced, seed } })}
+                                />
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -569,7 +1601,7 @@ const App: React.FC = () => {
                 <div className="w-full md:w-[400px] bg-black flex flex-col items-center justify-center p-4 relative border-l border-gray-800">
                     
                     {/* View Mode Toggle (If Idle Exists) */}
-                    {(activeScene.videoUrl || activeScene.idleVideoUrl) && (
+                    {!compareTake && (activeScene.videoUrl || activeScene.idleVideoUrl) && (
                         <div className="absolute top-4 z-10 bg-gray-900/80 backdrop-blur rounded-full p-1 flex space-x-1 border border-gray-700">
                             <button
                                 onClick={() => setPreviewMode('main')}
@@ -593,110 +1625,129 @@ const App: React.FC = () => {
                         </div>
                     )}
 
-                    <div className="relative aspect-[9/16] h-[80vh] max-h-[700px] bg-gray-800 rounded-xl overflow-hidden shadow-2xl border border-gray-700 group">
+                    {compareTake && activeTake ? (
+                        <TakeCompare
+                            activeTake={activeTake}
+                            otherTake={compareTake}
+                            aspectRatio={aspectSpec.id}
+                            onUseOther={() => handleSelectTake(activeSceneIndex, compareTake.id)}
+                            onClose={() => setCompareTakeId(null)}
+                        />
+                    ) : (
+                        <div className={`relative ${aspectSpec.editorFrameClass} bg-gray-800 rounded-xl overflow-hidden shadow-2xl border border-gray-700 group`}>
                         
-                        {/* Logic: 
-                            1. If Preview Mode is Main and Main URL exists -> Show Main Video
-                            2. If Preview Mode is Idle and Idle URL exists -> Show Idle Video
-                            3. Else if Image Preview exists -> Show Image
-                            4. Else -> Show Empty State
-                        */}
-
-                        {previewMode === 'main' && activeScene.videoUrl ? (
-                            <>
-                                <video 
-                                    ref={videoRef}
-                                    src={activeScene.videoUrl} 
-                                    className="w-full h-full object-cover"
-                                    onEnded={handleVideoEnded}
-                                    controls={false}
-                                    autoPlay={isPlaying}
-                                    playsInline
-                                />
-                                <div className="absolute bottom-12 left-4 right-4 text-center">
-                                    <p className="text-white text-lg font-bold drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] bg-black/30 p-2 rounded backdrop-blur-sm">
-                                        {activeScene.dialogue}
-                                    </p>
-                                </div>
-                            </>
-                        ) : previewMode === 'idle' && activeScene.idleVideoUrl ? (
-                            <>
-                                <video 
-                                    ref={videoRef}
-                                    src={activeScene.idleVideoUrl} 
-                                    className="w-full h-full object-cover"
-                                    // Idle loops indefinitely until manually stopped or switched
-                                    loop
-                                    autoPlay={true} 
-                                    controls={false}
-                                    playsInline
-                                />
-                                <div className="absolute top-12 left-0 right-0 text-center pointer-events-none">
-                                    <span className="bg-blue-600/80 text-white px-2 py-1 rounded text-xs font-mono uppercase tracking-widest backdrop-blur">
-                                        Idle Animation
-                                    </span>
-                                </div>
-                            </>
-                        ) : activeScene.previewImageUrl ? (
-                            /* Static Preview Layer */
-                            <>
-                                <img 
-                                    src={activeScene.previewImageUrl} 
-                                    alt="Scene Preview" 
-                                    className="w-full h-full object-cover opacity-90"
-                                />
-                                <div className="absolute inset-0 bg-black/20 flex flex-col items-center justify-end pb-12">
-                                     <div className="bg-black/60 backdrop-blur px-4 py-2 rounded-lg border border-white/10">
-                                         <p className="text-white text-xs font-mono uppercase tracking-widest">Image Preview</p>
-                                     </div>
-                                </div>
-                                <div className="absolute bottom-24 left-4 right-4 text-center opacity-80">
-                                    <p className="text-white text-lg font-bold drop-shadow-md bg-black/30 p-2 rounded">
-                                        {activeScene.dialogue}
-                                    </p>
-                                </div>
-                            </>
-                        ) : (
-                            /* Empty State */
-                             <div className="absolute inset-0 flex flex-col items-center justify-center p-8 text-center text-gray-500">
-                                {activeScene.status === 'generating' || activeScene.idleStatus === 'generating' ? (
-                                    <div className="animate-pulse flex flex-col items-center">
-                                        <div className="h-16 w-16 bg-purple-600/20 rounded-full flex items-center justify-center mb-4">
-                                            <ArrowPathIcon className="w-8 h-8 text-purple-500 animate-spin" />
+                            {/* Logic: 
+                                1. If Preview Mode is Main and Main URL exists -> Show Main Video
+                                2. If Preview Mode is Idle and Idle URL exists -> Show Idle Video
+                                3. Else if Image Preview exists -> Show Image
+                                4. Else -> Show Empty State
+                            */}
+
+                            {previewMode === 'main' && activeScene.videoUrl ? (
+                                <>
+                                    <video 
+                                        ref={videoRef}
+                                        src={activeScene.videoUrl} 
+                                        className="w-full h-full object-cover"
+                                        onEnded={handleVideoEnded}
+                                        controls={false}
+                                        autoPlay={isPlaying}
+                                        playsInline
+                                    />
+                                    <SyncedAudio src={activeScene.voiceoverUrl} videoRef={videoRef} />
+                                    {captionStyle.enabled ? (
+                                        <CaptionOverlay text={activeScene.dialogue} style={captionStyle} safeArea={aspectSpec.captionSafeArea} videoRef={videoRef} />
+                                    ) : (
+                                        <div className="absolute bottom-12 left-4 right-4 text-center">
+                                            <p className="text-white text-lg font-bold drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] bg-black/30 p-2 rounded backdrop-blur-sm">
+                                                {activeScene.dialogue}
+                                            </p>
                                         </div>
-                                        <p>Generating...</p>
+                                    )}
+                                </>
+                            ) : previewMode === 'idle' && activeScene.idleVideoUrl ? (
+                                <>
+                                    <video 
+                                        ref={videoRef}
+                                        src={activeScene.idleVideoUrl} 
+                                        className="w-full h-full object-cover"
+                                        // Idle loops indefinitely until manually stopped or switched
+                                        loop
+                                        autoPlay={true} 
+                                        controls={false}
+                                        playsInline
+                                    />
+                                    <div className="absolute top-12 left-0 right-0 text-center pointer-events-none">
+                                        <span className="bg-blue-600/80 text-white px-2 py-1 rounded text-xs font-mono uppercase tracking-widest backdrop-blur">
+                                            Idle Animation
+                                        </span>
                                     </div>
-                                ) : (
-                                    <>
-                                        <FilmIcon className="w-16 h-16 mb-4 opacity-50" />
-                                        <p>No video generated yet.</p>
-                                        <p className="text-xs mt-2 text-gray-600">Generate an image preview or the full video to see results.</p>
-                                    </>
-                                )}
-                            </div>
-                        )}
+                                </>
+                            ) : activeScene.previewImageUrl ? (
+                                /* Static Preview Layer */
+                                <>
+                                    <img 
+                                        src={activeScene.previewImageUrl} 
+                                        alt="Scene Preview" 
+                                        className="w-full h-full object-cover opacity-90"
+                                    />
+                                    <div className="absolute inset-0 bg-black/20 flex flex-col items-center justify-end pb-12">
+                                         <div className="bg-black/60 backdrop-blur px-4 py-2 rounded-lg border border-white/10">
+                                             <p className="text-white text-xs font-mono uppercase tracking-widest">Image Preview</p>
+                                         </div>
+                                    </div>
+                                    {captionStyle.enabled ? (
+                                        <CaptionOverlay text={activeScene.dialogue} style={captionStyle} safeArea={aspectSpec.captionSafeArea} />
+                                    ) : (
+                                        <div className="absolute bottom-24 left-4 right-4 text-center opacity-80">
+                                            <p className="text-white text-lg font-bold drop-shadow-md bg-black/30 p-2 rounded">
+                                                {activeScene.dialogue}
+                                            </p>
+                                        </div>
+                                    )}
+                                </>
+                            ) : (
+                                /* Empty State */
+                                 <div className="absolute inset-0 flex flex-col items-center justify-center p-8 text-center text-gray-500">
+                                    {activeScene.status === 'generating' || activeScene.idleStatus === 'generating' ? (
+                                        <div className="animate-pulse flex flex-col items-center">
+                                            <div className="h-16 w-16 bg-purple-600/20 rounded-full flex items-center justify-center mb-4">
+                                                <ArrowPathIcon className="w-8 h-8 text-purple-500 animate-spin" />
+                                            </div>
+                                            <p>Generating...</p>
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <FilmIcon className="w-16 h-16 mb-4 opacity-50" />
+                                            <p>No video generated yet.</p>
+                                            <p className="text-xs mt-2 text-gray-600">Generate an image preview or the full video to see results.</p>
+                                        </>
+                                    )}
+                                </div>
+                            )}
 
-                        {/* Player Controls (Only for Main Video) */}
-                        {previewMode === 'main' && activeScene.videoUrl && (
-                            <div className="absolute inset-0 flex items-center justify-center bg-black/20 opacity-0 hover:opacity-100 transition-opacity">
-                                <button 
-                                    onClick={() => {
-                                        if (videoRef.current) {
-                                            if (isPlaying) videoRef.current.pause();
-                                            else videoRef.current.play();
-                                            setIsPlaying(!isPlaying);
-                                        }
-                                    }}
-                                    className="p-4 bg-white/20 backdrop-blur rounded-full hover:bg-white/30 transition-all"
-                                >
-                                    {isPlaying ? <PauseIcon className="w-8 h-8 text-white" /> : <PlayIcon className="w-8 h-8 text-white" />}
-                                </button>
-                            </div>
-                        )}
-                    </div>
+                            {/* Player Controls (Only for Main Video) */}
+                            {previewMode === 'main' && activeScene.videoUrl && (
+                                <div className="absolute inset-0 flex items-center justify-center bg-black/20 opacity-0 hover:opacity-100 transition-opacity">
+                                    <button 
+                                        onClick={() => {
+                                            if (videoRef.current) {
+                                                if (isPlaying) videoRef.current.pause();
+                                                else videoRef.current.play();
+                                                setIsPlaying(!isPlaying);
+                                            }
+                                        }}
+                                        className="p-4 bg-white/20 backdrop-blur rounded-full hover:bg-white/30 transition-all"
+                                    >
+                                        {isPlaying ? <PauseIcon className="w-8 h-8 text-white" /> : <PlayIcon className="w-8 h-8 text-white" />}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
                     
                     <div className="mt-4 text-sm text-gray-500 font-mono">
-                         9:16 Vertical Preview • {activeScene.duration_seconds}s
+                         {aspectSpec.label} Preview • {activeScene.duration_seconds}s
                     </div>
                 </div>
            </div>
@@ -709,11 +1760,18 @@ const App: React.FC = () => {
             scenes={currentProject.scenes} 
             activeSceneIndex={activeSceneIndex}
             onSceneSelect={onSceneSelect}
+            onAddScene={handleAddScene}
+            onInsertAiScene={handleInsertAiScene}
+            insertingAfterIndex={insertingAfterIndex}
+            onDuplicateScene={handleDuplicateScene}
+            onDeleteScene={handleDeleteScene}
+            onReorderScene={handleReorderScene}
         />
       )}
     
       {/* Log Panel */}
       <LogPanel isVisible={showLogs} onClose={() => setShowLogs(false)} />
+      <QueuePanel isVisible={showQueue} onClose={() => setShowQueue(false)} />
       
       {/* Settings Modal */}
       <SettingsModal 
@@ -723,10 +1781,41 @@ const App: React.FC = () => {
         onToggleLogs={() => setShowLogs(!showLogs)}
       />
 
+      <ScriptImportModal
+        isOpen={showScriptImport}
+        cast={castInput}
+        busy={isGeneratingScript}
+        onClose={() => setShowScriptImport(false)}
+        onImport={handleImportScript}
+      />
+
+      {rewriteProposal && currentProject && (
+        <SceneRewriteReview
+          proposal={rewriteProposal}
+          current={currentProject.scenes.find(s => s.id === rewriteProposal.sceneId)}
+          onAccept={handleAcceptRewrite}
+          onDiscard={() => setRewriteProposal(null)}
+        />
+      )}
+
+      {showStoryboardGrid && currentProject && (
+        <StoryboardGrid
+          scenes={currentProject.scenes}
+          aspectRatio={currentProject.aspectRatio}
+          onClose={() => setShowStoryboardGrid(false)}
+          onGenerateAll={handleGenerateAllPreviews}
+          onGenerateScene={handleGenerateScenePreview}
+          onSelectScene={onSceneSelect}
+          onGenerateMovie={generateAllVideos}
+        />
+      )}
+
       {/* Full Movie Player Overlay */}
       {showFullMovie && currentProject && (
         <FullScreenPlayer 
             scenes={currentProject.scenes} 
+            aspectRatio={currentProject.aspectRatio}
+            language={currentProject.scriptOptions?.language}
             onClose={() => setShowFullMovie(false)} 
         />
       )}
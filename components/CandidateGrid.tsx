@@ -0,0 +1,52 @@
+import React from 'react';
+import { Scene, AspectRatio } from '../types';
+import { getLatestBatch, isActiveTake } from '../services/projectUtils';
+import { getAspectSpec } from '../services/aspectRatio';
+import { CheckCircleIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  scene: Scene;
+  aspectRatio?: AspectRatio; // Project format, for takes that do not record their own
+  onSelect: (takeId: string) => void;
+}
+
+// Candidates from the latest multi-video generation; hovering plays a candidate, clicking makes it the scene's video
+const CandidateGrid: React.FC<Props> = ({ scene, aspectRatio, onSelect }) => {
+  const candidates = getLatestBatch(scene);
+  if (candidates.length < 2) return null;
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {candidates.map((take, index) => {
+        const active = isActiveTake(scene, take);
+        return (
+          <button
+            key={take.id}
+            onClick={() => onSelect(take.id)}
+            className={`relative ${getAspectSpec(take.aspectRatio || aspectRatio).frameClass} rounded-lg overflow-hidden border-2 transition-all ${
+              active ? 'border-purple-500 shadow-[0_0_10px_rgba(168,85,247,0.5)]' : 'border-gray-700 hover:border-gray-500'
+            }`}
+            title={active ? 'Selected candidate' : 'Use this candidate'}
+          >
+            <video
+              src={take.videoUrl}
+              className="w-full h-full object-cover"
+              muted
+              loop
+              playsInline
+              preload="metadata"
+              onMouseEnter={(e) => e.currentTarget.play().catch(() => undefined)}
+              onMouseLeave={(e) => e.currentTarget.pause()}
+            />
+            <span className="absolute bottom-1 left-2 text-xs font-mono font-bold text-white drop-shadow-md">
+              #{index + 1}
+            </span>
+            {active && <CheckCircleIcon className="absolute top-1 right-1 w-5 h-5 text-purple-400 drop-shadow" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CandidateGrid;
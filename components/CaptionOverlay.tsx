@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+import { CaptionStyle } from '../types';
+import { drawCaption } from '../services/captionRenderer';
+import { SafeArea } from '../services/aspectRatio';
+
+interface Props {
+  text: string;
+  style: CaptionStyle;
+  safeArea: SafeArea; // Of the project's aspect ratio
+  // When given, the karaoke highlight follows the video's playback position
+  videoRef?: React.RefObject<HTMLVideoElement | null>;
+}
+
+// Renders captions with the exact same drawing code the exporter burns into frames
+const CaptionOverlay: React.FC<Props> = ({ text, style, safeArea, videoRef }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const draw = () => {
+      const canvas = canvasRef.current;
+      if (canvas) {
+        const { clientWidth, clientHeight } = canvas;
+        if (canvas.width !== clientWidth || canvas.height !== clientHeight) {
+          canvas.width = clientWidth;
+          canvas.height = clientHeight;
+        }
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+          ctx.clearRect(0, 0, canvas.width, canvas.height);
+          const video = videoRef?.current;
+          const progress = video && video.duration ? video.currentTime / video.duration : 0;
+          drawCaption(ctx, text, progress, style, canvas.width, canvas.height, safeArea);
+        }
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [text, style, safeArea, videoRef]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default CaptionOverlay;
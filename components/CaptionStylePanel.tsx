@@ -0,0 +1,98 @@
+import React from 'react';
+import { CaptionStyle, CaptionPosition } from '../types';
+import { CAPTION_PRESETS, FONT_OPTIONS, applyCaptionPreset } from '../services/captionRenderer';
+import { ChatBubbleBottomCenterTextIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  style: CaptionStyle;
+  onChange: (style: CaptionStyle) => void;
+}
+
+const selectClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none";
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+const CaptionStylePanel: React.FC<Props> = ({ style, onChange }) => {
+  // Any manual tweak detaches the style from its preset
+  const update = (patch: Partial<CaptionStyle>) => onChange({ ...style, ...patch, presetId: 'custom' });
+
+  return (
+    <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <ChatBubbleBottomCenterTextIcon className="w-3 h-3 text-pink-400" />
+          Burned-in Captions
+        </span>
+        <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={style.enabled}
+            onChange={(e) => onChange({ ...style, enabled: e.target.checked })}
+            className="accent-purple-500"
+          />
+          Enabled
+        </label>
+      </div>
+
+      {style.enabled && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {CAPTION_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => onChange(applyCaptionPreset(style, preset.id))}
+                className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${
+                  style.presetId === preset.id ? 'bg-purple-600 border-purple-500 text-white' : 'border-gray-600 text-gray-400 hover:text-white'
+                }`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Font</label>
+              <select value={style.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className={selectClass}>
+                {FONT_OPTIONS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Position</label>
+              <select value={style.position} onChange={(e) => update({ position: e.target.value as CaptionPosition })} className={selectClass}>
+                <option value="top">Top</option>
+                <option value="center">Center</option>
+                <option value="bottom">Bottom (safe area)</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Size ({style.fontSize}px)</label>
+              <input type="range" min={24} max={96} value={style.fontSize} onChange={(e) => update({ fontSize: Number(e.target.value) })} className="w-full accent-purple-500" />
+            </div>
+            <div>
+              <label className={labelClass}>Stroke ({style.strokeWidth}px)</label>
+              <input type="range" min={0} max={16} value={style.strokeWidth} onChange={(e) => update({ strokeWidth: Number(e.target.value) })} className="w-full accent-purple-500" />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4 text-xs text-gray-300">
+            <label className="flex items-center gap-2">
+              Text <input type="color" value={style.color} onChange={(e) => update({ color: e.target.value })} className="w-6 h-6 bg-transparent" />
+            </label>
+            <label className="flex items-center gap-2">
+              Stroke <input type="color" value={style.strokeColor} onChange={(e) => update({ strokeColor: e.target.value })} className="w-6 h-6 bg-transparent" />
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={style.karaoke} onChange={(e) => update({ karaoke: e.target.checked })} className="accent-purple-500" />
+              Karaoke
+            </label>
+            {style.karaoke && (
+              <input type="color" value={style.highlightColor} onChange={(e) => update({ highlightColor: e.target.value })} className="w-6 h-6 bg-transparent" title="Highlight color" />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CaptionStylePanel;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { CastMember } from '../types';
+import { VoiceOption } from '../services/voiceoverService';
+import { createCastMember } from '../services/projectUtils';
+import { EyeIcon, ArrowPathIcon, TrashIcon, PlusIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  cast: CastMember[];
+  onChange: (cast: CastMember[]) => void;
+  onGeneratePreview: (member: CastMember) => void;
+  generatingIds: string[];
+  voices?: VoiceOption[];
+}
+
+const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none placeholder-gray-500 shadow-sm";
+
+const CastEditor: React.FC<Props> = ({ cast, onChange, onGeneratePreview, generatingIds, voices }) => {
+  const updateMember = (id: string, patch: Partial<CastMember>) =>
+    onChange(cast.map(m => m.id === id ? { ...m, ...patch } : m));
+
+  return (
+    <div className="space-y-3">
+      {cast.map(member => {
+        const isGenerating = generatingIds.includes(member.id);
+        return (
+          <div key={member.id} className="flex gap-3 bg-gray-900/60 border border-gray-700 rounded-lg p-3">
+            <div className="flex-1 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  value={member.name}
+                  onChange={(e) => updateMember(member.id, { name: e.target.value })}
+                  placeholder="Name"
+                  className={`${inputClass} flex-1`}
+                />
+                {voices && (
+                  <select
+                    value={member.voice || ''}
+                    onChange={(e) => updateMember(member.id, { voice: e.target.value || undefined })}
+                    className={`${inputClass} w-36`}
+                    title="Voice"
+                  >
+                    <option value="">Default voice</option>
+                    {voices.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                  </select>
+                )}
+                <button
+                  onClick={() => onChange(cast.filter(m => m.id !== member.id))}
+                  disabled={cast.length <= 1}
+                  className="p-2 text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-500"
+                  title={cast.length <= 1 ? 'A project needs at least one character' : 'Remove from cast'}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <textarea
+                value={member.appearance}
+                onChange={(e) => updateMember(member.id, { appearance: e.target.value })}
+                placeholder="e.g., A cute Shiba Inu wearing sunglasses"
+                className={`${inputClass} h-16`}
+              />
+            </div>
+
+            {/* Reference Image */}
+            <div className="w-20 flex flex-col space-y-2">
+              <div className="w-20 h-20 bg-gray-800 border border-gray-700 rounded-lg overflow-hidden flex items-center justify-center relative">
+                {member.referenceImageUrl ? (
+                  <img src={member.referenceImageUrl} alt={member.name} className="w-full h-full object-cover" />
+                ) : (
+                  <EyeIcon className="w-6 h-6 text-gray-600" />
+                )}
+                {isGenerating && (
+                  <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                    <ArrowPathIcon className="w-5 h-5 text-purple-500 animate-spin" />
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => onGeneratePreview(member)}
+                disabled={!member.appearance || isGenerating}
+                className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-1 px-2 rounded w-full"
+              >
+                {member.referenceImageUrl ? 'Update' : 'Preview'}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onChange([...cast, createCastMember()])}
+        className="w-full py-2 border border-dashed border-gray-600 rounded-lg text-xs font-bold text-gray-400 hover:text-white hover:border-gray-400 flex items-center justify-center gap-1 transition-colors"
+      >
+        <PlusIcon className="w-3 h-3" /> Add Character
+      </button>
+    </div>
+  );
+};
+
+export default CastEditor;
@@ -1,14 +1,20 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Scene } from '../types';
-import { XMarkIcon, PlayIcon, PauseIcon, BackwardIcon, ForwardIcon } from '@heroicons/react/24/solid';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Scene, AspectRatio } from '../types';
+import { getAspectSpec } from '../services/aspectRatio';
+import { buildSceneCues, toVtt } from '../services/subtitleService';
+import { getLanguageCode } from '../services/scriptOptions';
+import SyncedAudio from './SyncedAudio';
+import { XMarkIcon, PlayIcon, PauseIcon, BackwardIcon, ForwardIcon, ChatBubbleBottomCenterTextIcon } from '@heroicons/react/24/solid';
 
 interface Props {
   scenes: Scene[];
+  aspectRatio?: AspectRatio;
+  language?: string; // Of the dialogue, as set in the script options
   onClose: () => void;
 }
 
-const FullScreenPlayer: React.FC<Props> = ({ scenes, onClose }) => {
+const FullScreenPlayer: React.FC<Props> = ({ scenes, aspectRatio, language, onClose }) => {
   // Filter only scenes with videos
   const playableScenes = scenes.filter(s => s.videoUrl && s.status === 'completed');
   
@@ -16,7 +22,9 @@ const FullScreenPlayer: React.FC<Props> = ({ scenes, onClose }) => {
   const [isPlaying, setIsPlaying] = useState(true);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [showCaptions, setShowCaptions] = useState(true);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const trackRef = useRef<HTMLTrackElement>(null);
 
   useEffect(() => {
     // Reset time when scene changes
@@ -77,10 +85,26 @@ const FullScreenPlayer: React.FC<Props> = ({ scenes, onClose }) => {
     if (currentIndex > 0) setCurrentIndex(prev => prev - 1);
   };
 
-  if (playableScenes.length === 0) return null;
-
   const currentScene = playableScenes[currentIndex];
 
+  // Per-clip WebVTT track, re-timed once the clip's real duration is known
+  const captionTrackUrl = useMemo(() => {
+    if (!currentScene?.dialogue.trim()) return null;
+    const cues = buildSceneCues(currentScene, duration || currentScene.duration_seconds);
+    return URL.createObjectURL(new Blob([toVtt(cues)], { type: 'text/vtt' }));
+  }, [currentScene, duration]);
+
+  useEffect(() => () => {
+    if (captionTrackUrl) URL.revokeObjectURL(captionTrackUrl);
+  }, [captionTrackUrl]);
+
+  useEffect(() => {
+    const track = trackRef.current?.track;
+    if (track) track.mode = showCaptions ? 'showing' : 'hidden';
+  }, [showCaptions, captionTrackUrl]);
+
+  if (playableScenes.length === 0) return null;
+
   return (
     <div className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-center">
       {/* Close Button */}
@@ -92,7 +116,7 @@ const FullScreenPlayer: React.FC<Props> = ({ scenes, onClose }) => {
       </button>
 
       {/* Video Container */}
-      <div className="relative h-full w-full max-w-[56.25vh] aspect-[9/16] bg-gray-900 shadow-2xl overflow-hidden group">
+      <div className={`relative ${getAspectSpec(aspectRatio).playerFrameClass} bg-gray-900 shadow-2xl overflow-hidden group`}>
         <video
           ref={videoRef}
           className="w-full h-full object-cover"
@@ -101,7 +125,22 @@ const FullScreenPlayer: React.FC<Props> = ({ scenes, onClose }) => {
           onTimeUpdate={handleTimeUpdate}
           onLoadedMetadata={handleLoadedMetadata}
           playsInline
-        />
+        >
+          {captionTrackUrl && (
+            <track key={captionTrackUrl} ref={trackRef} kind="subtitles" label="Dialogue" srcLang={getLanguageCode(language)} src={captionTrackUrl} default />
+          )}
+        </video>
+
+        <SyncedAudio src={currentScene.voiceoverUrl} videoRef={videoRef} />
+
+        {/* Captions Toggle */}
+        <button
+          onClick={(e) => { e.stopPropagation(); setShowCaptions(!showCaptions); }}
+          className={`absolute top-4 left-4 p-2 rounded-full z-20 transition-colors ${showCaptions ? 'bg-purple-600/80 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'}`}
+          title={showCaptions ? 'Hide captions' : 'Show captions'}
+        >
+          <ChatBubbleBottomCenterTextIcon className="w-5 h-5" />
+        </button>
 
         {/* Bottom Info & Slider Overlay */}
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/50 to-transparent p-6 pt-20 flex flex-col justify-end pointer-events-none">
@@ -125,13 +164,6 @@ const FullScreenPlayer: React.FC<Props> = ({ scenes, onClose }) => {
               </span>
            </div>
 
-           {/* Dialogue Text (Always visible) */}
-           <div className="mb-2">
-             <p className="text-white/90 font-medium text-lg leading-snug shadow-black drop-shadow-md">
-               {currentScene.dialogue}
-             </p>
-           </div>
-           
            {/* Scene Info */}
            <div className="flex justify-between items-end text-xs text-white/50 font-mono">
              <span>Scene {currentScene.scene_number}</span>
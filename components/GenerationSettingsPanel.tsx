@@ -0,0 +1,57 @@
+import React from 'react';
+import { GenerationSettings } from '../types';
+import { getGenerationProvider, ModelOption } from '../services/providers';
+import { resolveGenerationSettings, ResolvedGenerationSettings } from '../services/generationService';
+import { AdjustmentsHorizontalIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  // Scene mode: every field may be left on the project's value, and the script model is not shown
+  projectSettings?: ResolvedGenerationSettings;
+}
+
+const selectClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none";
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+const labelFor = (options: ModelOption[], id: string) => options.find(o => o.id === id)?.label || id;
+
+const GenerationSettingsPanel: React.FC<Props> = ({ settings, onChange, projectSettings }) => {
+  const { script, image, video } = getGenerationProvider();
+  const resolved = resolveGenerationSettings(settings);
+  const resolutions = video.resolutions.map(r => ({ id: r, label: r }));
+
+  // Empty value clears the field so it follows the project (scene mode) or the backend default
+  const update = (field: keyof GenerationSettings, value: string) => onChange({ ...settings, [field]: value || undefined });
+
+  const renderSelect = (field: keyof GenerationSettings, label: string, options: ModelOption[]) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <select
+        value={projectSettings ? (options.some(o => o.id === settings[field]) ? settings[field] : '') : resolved[field]}
+        onChange={(e) => update(field, e.target.value)}
+        className={selectClass}
+      >
+        {projectSettings && <option value="">Project default ({labelFor(options, projectSettings[field])})</option>}
+        {options.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700 space-y-3">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+        <AdjustmentsHorizontalIcon className="w-3 h-3 text-blue-400" />
+        {projectSettings ? 'Scene Model Overrides' : 'Generation Settings'}
+      </span>
+      <div className="grid grid-cols-2 gap-3">
+        {renderSelect('videoModel', 'Video Model', video.models)}
+        {renderSelect('resolution', 'Resolution', resolutions)}
+        {renderSelect('imageModel', 'Image Model', image.models)}
+        {!projectSettings && renderSelect('scriptModel', 'Script Model', script.models)}
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types';
+import { FolderOpenIcon, DocumentDuplicateIcon, PencilSquareIcon, TrashIcon, FilmIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  projects: ProjectSummary[];
+  activeProjectId?: string;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectLibrary: React.FC<Props> = ({ projects, activeProjectId, onOpen, onDuplicate, onRename, onDelete }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameInput, setNameInput] = useState('');
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setNameInput(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && nameInput.trim()) {
+      onRename(renamingId, nameInput.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Delete "${project.name}"? Generated clips stored with it will be removed too.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-2xl border border-gray-700 shadow-2xl">
+      <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">Your Projects</h3>
+      <div className="space-y-2">
+        {projects.map(project => (
+          <div
+            key={project.id}
+            className={`flex items-center gap-3 p-2 rounded-lg border transition-colors ${
+              project.id === activeProjectId ? 'border-purple-500 bg-purple-900/20' : 'border-gray-700 bg-gray-900 hover:border-gray-600'
+            }`}
+          >
+            <div className="w-12 h-12 flex-shrink-0 rounded bg-gray-800 overflow-hidden flex items-center justify-center">
+              {project.thumbnailUrl ? (
+                <img src={project.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+              ) : (
+                <FilmIcon className="w-6 h-6 text-gray-600" />
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              {renamingId === project.id ? (
+                <input
+                  autoFocus
+                  value={nameInput}
+                  onChange={(e) => setNameInput(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                />
+              ) : (
+                <p className="text-sm font-semibold text-white truncate">{project.name}</p>
+              )}
+              <p className="text-xs text-gray-500 font-mono">
+                {project.completedCount}/{project.sceneCount} clips • {new Date(project.updatedAt).toLocaleString()}
+                {project.pendingRenders > 0 && <span className="text-purple-400"> • {project.pendingRenders} rendering</span>}
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-1">
+              <button onClick={() => onOpen(project.id)} className="p-2 hover:bg-gray-700 rounded text-gray-300 hover:text-white" title="Open">
+                <FolderOpenIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => startRename(project)} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white" title="Rename">
+                <PencilSquareIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => onDuplicate(project.id)} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white" title="Duplicate">
+                <DocumentDuplicateIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleDelete(project)} className="p-2 hover:bg-red-900/50 rounded text-gray-400 hover:text-red-400" title="Delete">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
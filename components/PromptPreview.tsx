@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Project, Scene } from '../types';
+import { buildScenePrompt } from '../services/generationService';
+import { PROMPT_TEMPLATE_LABELS, ScenePromptId, getPromptTemplate, validateTemplate } from '../services/promptTemplates';
+import { EyeIcon, ChevronDownIcon, ChevronUpIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  scene: Scene;
+  project: Project;
+}
+
+const SCENE_PROMPTS: ScenePromptId[] = ['sceneVideo', 'scenePreview', 'idleVideo'];
+
+// The prompt the scene would be sent with right now, updated as the scene or the templates change
+const PromptPreview: React.FC<Props> = ({ scene, project }) => {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<ScenePromptId>('sceneVideo');
+
+  const problems = validateTemplate(selected, getPromptTemplate(project.promptTemplates, selected));
+
+  return (
+    <div className="bg-gray-800/30 rounded-lg border border-gray-700">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-gray-400 uppercase tracking-wider hover:text-white"
+      >
+        <span className="flex items-center gap-2">
+          <EyeIcon className="w-4 h-4 text-pink-400" />
+          Final Prompt
+        </span>
+        {open ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-2">
+          <div className="flex gap-1">
+            {SCENE_PROMPTS.map(id => (
+              <button
+                key={id}
+                onClick={() => setSelected(id)}
+                className={`px-2 py-1 rounded text-[11px] font-bold ${selected === id ? 'bg-pink-600 text-white' : 'bg-gray-900 text-gray-400 hover:text-white'}`}
+              >
+                {PROMPT_TEMPLATE_LABELS[id]}
+              </button>
+            ))}
+          </div>
+          <pre className="bg-gray-950 border border-gray-700 rounded-lg p-3 text-[11px] text-gray-300 whitespace-pre-wrap font-mono max-h-60 overflow-y-auto">
+            {buildScenePrompt(selected, scene, project.cast, project)}
+          </pre>
+          {problems.length > 0 && (
+            <p className="text-[11px] text-yellow-400 flex items-start gap-1">
+              <ExclamationTriangleIcon className="w-3 h-3 mt-0.5 shrink-0" />
+              The template has problems: {problems.join('; ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptPreview;
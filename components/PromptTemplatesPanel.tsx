@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { PromptTemplateId, PromptTemplates } from '../types';
+import {
+  DEFAULT_VISUAL_STYLE,
+  PROMPT_TEMPLATE_LABELS,
+  PLACEHOLDER_DESCRIPTIONS,
+  getAvailablePlaceholders,
+  getPromptTemplate,
+  validateTemplate,
+} from '../services/promptTemplates';
+import { CodeBracketIcon, ChevronDownIcon, ChevronUpIcon, ExclamationTriangleIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  templates: PromptTemplates;
+  visualStyle?: string;
+  onChange: (templates: PromptTemplates) => void;
+  onChangeStyle: (visualStyle: string | undefined) => void;
+}
+
+const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none";
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+const TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATE_LABELS) as PromptTemplateId[];
+
+// Project-wide editor for the prompts sent to the script, image and video models
+const PromptTemplatesPanel: React.FC<Props> = ({ templates, visualStyle, onChange, onChangeStyle }) => {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<PromptTemplateId>('sceneVideo');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const template = getPromptTemplate(templates, selected);
+  const problems = validateTemplate(selected, template);
+  const isCustom = !!templates[selected]?.trim();
+  const customCount = TEMPLATE_IDS.filter(id => templates[id]?.trim()).length;
+
+  const update = (value: string) => onChange({ ...templates, [selected]: value });
+
+  const reset = () => {
+    const { [selected]: _, ...rest } = templates;
+    onChange(rest);
+  };
+
+  // Inserts at the cursor so placeholders can be added without typing the braces
+  const insertPlaceholder = (name: string) => {
+    const el = textareaRef.current;
+    const token = `{{${name}}}`;
+    const start = el?.selectionStart ?? template.length;
+    const end = el?.selectionEnd ?? template.length;
+    update(template.slice(0, start) + token + template.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg border border-gray-700">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-gray-400 uppercase tracking-wider hover:text-white"
+      >
+        <span className="flex items-center gap-2">
+          <CodeBracketIcon className="w-3 h-3 text-pink-400" />
+          Prompt Templates {customCount > 0 && <span className="text-pink-300 normal-case">({customCount} customized)</span>}
+        </span>
+        {open ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <div>
+            <label className={labelClass}>Visual Style {'{{style}}'}</label>
+            <input
+              type="text"
+              value={visualStyle || ''}
+              onChange={(e) => onChangeStyle(e.target.value || undefined)}
+              placeholder={DEFAULT_VISUAL_STYLE}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <label className={labelClass}>Template</label>
+              <select value={selected} onChange={(e) => setSelected(e.target.value as PromptTemplateId)} className={inputClass}>
+                {TEMPLATE_IDS.map(id => (
+                  <option key={id} value={id}>{PROMPT_TEMPLATE_LABELS[id]}{templates[id]?.trim() ? ' (customized)' : ''}</option>
+                ))}
+              </select>
+            </div>
+            {isCustom && (
+              <button
+                onClick={reset}
+                className="px-3 py-2 text-xs text-gray-300 hover:text-white border border-gray-700 rounded-lg flex items-center gap-1"
+                title="Discard the edits and use the built-in template"
+              >
+                <ArrowUturnLeftIcon className="w-3 h-3" /> Default
+              </button>
+            )}
+          </div>
+
+          <textarea
+            ref={textareaRef}
+            value={template}
+            onChange={(e) => update(e.target.value)}
+            spellCheck={false}
+            className={`${inputClass} h-40 font-mono text-xs resize-y ${problems.length ? 'border-yellow-600' : ''}`}
+          />
+
+          {problems.length > 0 && (
+            <ul className="text-[11px] text-yellow-400 space-y-1">
+              {problems.map(problem => (
+                <li key={problem} className="flex items-start gap-1">
+                  <ExclamationTriangleIcon className="w-3 h-3 mt-0.5 shrink-0" /> {problem}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div>
+            <label className={labelClass}>Placeholders</label>
+            <div className="flex flex-wrap gap-1">
+              {getAvailablePlaceholders(selected).map(name => (
+                <button
+                  key={name}
+                  onClick={() => insertPlaceholder(name)}
+                  title={PLACEHOLDER_DESCRIPTIONS[name]}
+                  className="px-1.5 py-0.5 bg-gray-900 border border-gray-700 rounded text-[10px] font-mono text-gray-300 hover:text-white hover:border-pink-500"
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-500 mt-2">
+              Wrap text in {'{{#name}}...{{/name}}'} to include it only when the value is set; {'{{#characters}}'} repeats it per character.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplatesPanel;
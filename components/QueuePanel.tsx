@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { generationQueue } from '../services/generationQueue';
+import { GenerationJob } from '../types';
+import { XMarkIcon, TrashIcon, ChevronDownIcon, ChevronUpIcon, StopIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  isVisible: boolean;
+  onClose: () => void;
+}
+
+const ACTIVE_STATUSES: GenerationJob['status'][] = ['pending', 'running', 'retrying'];
+
+const getStatusColor = (status: GenerationJob['status']) => {
+  switch (status) {
+    case 'pending': return 'text-gray-400';
+    case 'running': return 'text-blue-400';
+    case 'retrying': return 'text-yellow-400';
+    case 'completed': return 'text-green-400';
+    case 'failed': return 'text-red-400 font-bold';
+    case 'cancelled': return 'text-gray-500';
+  }
+};
+
+const describeTiming = (job: GenerationJob, now: number) => {
+  if (job.status === 'retrying' && job.nextAttemptAt) {
+    return `retry in ${Math.max(0, Math.ceil((job.nextAttemptAt - now) / 1000))}s`;
+  }
+  if (job.status === 'running' && job.startedAt) {
+    return `${Math.round((now - job.startedAt) / 1000)}s`;
+  }
+  if (job.finishedAt && job.startedAt) {
+    return `${Math.round((job.finishedAt - job.startedAt) / 1000)}s`;
+  }
+  return '';
+};
+
+const QueuePanel: React.FC<Props> = ({ isVisible, onClose }) => {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [isMinimized, setIsMinimized] = useState(false);
+  const [concurrency, setConcurrency] = useState(generationQueue.getConcurrency());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => generationQueue.subscribe(setJobs), []);
+
+  const activeCount = jobs.filter(j => ACTIVE_STATUSES.includes(j.status)).length;
+
+  // Tick elapsed times and retry countdowns while something is in flight
+  useEffect(() => {
+    if (!isVisible || activeCount === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isVisible, activeCount]);
+
+  if (!isVisible) return null;
+
+  const handleConcurrencyChange = (value: number) => {
+    generationQueue.setConcurrency(value);
+    setConcurrency(generationQueue.getConcurrency());
+  };
+
+  return (
+    <div className={`fixed bottom-4 left-4 z-50 w-full max-w-md bg-gray-900 border border-gray-700 rounded-lg shadow-2xl transition-all duration-300 flex flex-col font-mono text-xs ${isMinimized ? 'h-10' : 'h-80'}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-800 rounded-t-lg border-b border-gray-700 cursor-pointer" onClick={() => setIsMinimized(!isMinimized)}>
+        <div className="flex items-center space-x-2">
+          <div className={`w-2 h-2 rounded-full ${activeCount > 0 ? 'bg-blue-500 animate-pulse' : 'bg-gray-600'}`}></div>
+          <span className="font-bold text-gray-300">Generation Queue</span>
+          <span className="bg-gray-700 text-gray-400 px-1.5 rounded text-[10px]">{activeCount} active</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <select
+            value={concurrency}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+            className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-300 focus:outline-none"
+            title="Jobs running at the same time"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}x</option>)}
+          </select>
+          <button
+            onClick={(e) => { e.stopPropagation(); generationQueue.cancelAll(); }}
+            disabled={activeCount === 0}
+            className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-red-400 disabled:opacity-30"
+            title="Cancel all jobs"
+          >
+            <StopIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); generationQueue.clearFinished(); }}
+            className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white"
+            title="Clear finished jobs"
+          >
+            <TrashIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); setIsMinimized(!isMinimized); }}
+            className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white"
+          >
+            {isMinimized ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); onClose(); }}
+            className="p-1 hover:bg-red-900/50 rounded text-gray-400 hover:text-red-400"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      {!isMinimized && (
+        <div className="flex-1 overflow-y-auto p-3 space-y-1 bg-black/50 backdrop-blur-sm rounded-b-lg scrollbar-thin scrollbar-thumb-gray-700">
+          {jobs.length === 0 && (
+            <div className="text-gray-600 italic text-center mt-10">No generation jobs yet...</div>
+          )}
+          {jobs.map((job) => (
+            <div key={job.id} className="flex items-center space-x-2 hover:bg-gray-800/50 p-0.5 rounded">
+              <span className={`shrink-0 w-16 uppercase font-semibold ${getStatusColor(job.status)}`}>{job.status}</span>
+              <span className="flex-1 min-w-0">
+                <span className="text-gray-300">{job.label}</span>
+                <span className="text-gray-600"> · {job.model}</span>
+                {job.attempts > 1 && <span className="text-gray-500"> · attempt {job.attempts}/{job.maxAttempts}</span>}
+                {job.error && (job.status === 'failed' || job.status === 'retrying') && (
+                  <span className="block text-red-400/80 truncate" title={job.error}>{job.error}</span>
+                )}
+              </span>
+              <span className="shrink-0 text-gray-500">{describeTiming(job, now)}</span>
+              {ACTIVE_STATUSES.includes(job.status) && (
+                <button
+                  onClick={() => generationQueue.cancel(job.id)}
+                  className="shrink-0 p-0.5 text-gray-500 hover:text-red-400"
+                  title="Cancel job"
+                >
+                  <XMarkIcon className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueuePanel;
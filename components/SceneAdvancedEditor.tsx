@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { SceneAdvanced, PersonGeneration } from '../types';
+import { WrenchScrewdriverIcon, ChevronDownIcon, ChevronUpIcon, ArrowPathRoundedSquareIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  advanced: SceneAdvanced;
+  onChange: (advanced: SceneAdvanced) => void;
+  inputClass: string;
+  labelClass: string;
+}
+
+const CAMERA_MOVEMENTS = [
+  'Static shot',
+  'Slow dolly in',
+  'Slow dolly out',
+  'Pan left',
+  'Pan right',
+  'Tilt up',
+  'Tilt down',
+  'Orbit around the subject',
+  'Handheld, slight shake',
+  'Crane shot rising up',
+  'Tracking shot following the character',
+];
+
+const PERSON_GENERATION_OPTIONS: { value: PersonGeneration | ''; label: string }[] = [
+  { value: '', label: 'Model default' },
+  { value: 'allow_all', label: 'Allow all people' },
+  { value: 'allow_adult', label: 'Adults only' },
+  { value: 'dont_allow', label: 'No people' },
+];
+
+// Veo seeds are unsigned 32-bit integers
+const MAX_SEED = 4294967295;
+
+const randomSeed = () => Math.floor(Math.random() * MAX_SEED);
+
+// Collapsible clip generation knobs; set a seed to reproduce a take or iterate on it with small prompt changes
+const SceneAdvancedEditor: React.FC<Props> = ({ advanced, onChange, inputClass, labelClass }) => {
+  const [open, setOpen] = useState(false);
+  const update = (patch: Partial<SceneAdvanced>) => onChange({ ...advanced, ...patch });
+  const activeCount = [advanced.negativePrompt?.trim(), advanced.seed !== undefined, advanced.personGeneration, advanced.cameraMovement?.trim()]
+    .filter(Boolean).length;
+
+  return (
+    <div className="bg-gray-800/30 rounded-lg border border-gray-700">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-gray-400 uppercase tracking-wider hover:text-white"
+      >
+        <span className="flex items-center gap-2">
+          <WrenchScrewdriverIcon className="w-4 h-4 text-orange-400" />
+          Advanced {activeCount > 0 && <span className="text-orange-300 normal-case">({activeCount} set)</span>}
+        </span>
+        {open ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <div>
+            <label className={labelClass}>Negative Prompt</label>
+            <input
+              type="text"
+              value={advanced.negativePrompt || ''}
+              onChange={(e) => update({ negativePrompt: e.target.value || undefined })}
+              placeholder="e.g., text, watermark, blurry, extra limbs"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Seed</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_SEED}
+                  value={advanced.seed ?? ''}
+                  onChange={(e) => update({
+                    seed: e.target.value === '' ? undefined : Math.min(MAX_SEED, Math.max(0, Math.floor(Number(e.target.value)))),
+                  })}
+                  placeholder="Random"
+                  className={`${inputClass} flex-1 min-w-0`}
+                />
+                <button
+                  onClick={() => update({ seed: randomSeed() })}
+                  className="px-2 text-gray-400 hover:text-white border border-gray-700 rounded-lg"
+                  title="Pick a random seed"
+                >
+                  <ArrowPathRoundedSquareIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>People</label>
+              <select
+                value={advanced.personGeneration || ''}
+                onChange={(e) => update({ personGeneration: (e.target.value || undefined) as PersonGeneration | undefined })}
+                className={inputClass}
+                title="Some models only accept 'Adults only' when the clip starts from an image"
+              >
+                {PERSON_GENERATION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Camera Movement</label>
+            <input
+              type="text"
+              list="camera-movements"
+              value={advanced.cameraMovement || ''}
+              onChange={(e) => update({ cameraMovement: e.target.value || undefined })}
+              placeholder="Pick a preset or describe the move"
+              className={inputClass}
+            />
+            <datalist id="camera-movements">
+              {CAMERA_MOVEMENTS.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SceneAdvancedEditor;
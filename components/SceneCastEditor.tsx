@@ -0,0 +1,95 @@
+import React from 'react';
+import { CastMember, Character } from '../types';
+import { XMarkIcon, PlusIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  characters: Character[];
+  cast: CastMember[];
+  onChange: (characters: Character[]) => void;
+  inputClass: string;
+  labelClass: string;
+}
+
+// Per-scene performance of each cast member: who is in the shot and what they do
+const SceneCastEditor: React.FC<Props> = ({ characters, cast, onChange, inputClass, labelClass }) => {
+  const updateCharacter = (index: number, patch: Partial<Character>) =>
+    onChange(characters.map((c, i) => i === index ? { ...c, ...patch } : c));
+
+  const availableToAdd = cast.filter(m => !characters.some(c => c.castId === m.id));
+
+  return (
+    <div className="space-y-3">
+      {characters.map((character, index) => (
+        <div key={`${character.castId}-${index}`} className="bg-gray-800/50 p-3 rounded-lg border border-gray-700 space-y-3">
+          <div className="flex items-center gap-2">
+            <select
+              value={character.castId}
+              onChange={(e) => updateCharacter(index, { castId: e.target.value })}
+              className={`${inputClass} flex-1 font-bold`}
+            >
+              {!cast.some(m => m.id === character.castId) && <option value={character.castId}>Unknown character</option>}
+              {cast.map(m => (
+                <option key={m.id} value={m.id} disabled={m.id !== character.castId && characters.some(c => c.castId === m.id)}>
+                  {m.name || 'Unnamed character'}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(characters.filter((_, i) => i !== index))}
+              className="p-2 text-gray-500 hover:text-red-400"
+              title="Remove from scene"
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Character Action</label>
+              <input
+                type="text"
+                value={character.actions.join(', ')}
+                onChange={(e) => updateCharacter(index, { actions: e.target.value.split(', ') })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Expression</label>
+              <input
+                type="text"
+                value={character.expression}
+                onChange={(e) => updateCharacter(index, { expression: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Pose</label>
+            <input
+              type="text"
+              value={character.pose}
+              onChange={(e) => updateCharacter(index, { pose: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      ))}
+
+      {availableToAdd.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {availableToAdd.map(member => (
+            <button
+              key={member.id}
+              onClick={() => onChange([...characters, { castId: member.id, pose: '', expression: 'neutral', actions: [] }])}
+              className="px-3 py-1 border border-dashed border-gray-600 rounded-full text-xs text-gray-400 hover:text-white hover:border-gray-400 flex items-center gap-1 transition-colors"
+            >
+              <PlusIcon className="w-3 h-3" /> {member.name || 'Unnamed character'}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SceneCastEditor;
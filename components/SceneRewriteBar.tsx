@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { SCENE_REWRITE_ACTIONS, SceneRewriteAction } from '../services/sceneRewrite';
+import { SparklesIcon, ArrowPathIcon, PaperAirplaneIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  busy: boolean; // A rewrite of this scene is running
+  disabled: boolean; // Another rewrite is running or waiting for review
+  onRewrite: (action: SceneRewriteAction, instruction: string) => void;
+}
+
+// AI script actions for the selected scene; results are reviewed before anything changes
+const SceneRewriteBar: React.FC<Props> = ({ busy, disabled, onRewrite }) => {
+  const [customInstruction, setCustomInstruction] = useState('');
+
+  const submitCustom = () => {
+    if (!customInstruction.trim()) return;
+    onRewrite('custom', customInstruction.trim());
+    setCustomInstruction('');
+  };
+
+  return (
+    <div className="bg-gray-800/30 rounded-lg border border-gray-700 p-3 space-y-2">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+        {busy ? <ArrowPathIcon className="w-4 h-4 text-purple-400 animate-spin" /> : <SparklesIcon className="w-4 h-4 text-purple-400" />}
+        {busy ? 'Rewriting...' : 'AI Script'}
+      </span>
+      <div className="flex flex-wrap gap-1">
+        {SCENE_REWRITE_ACTIONS.map(action => (
+          <button
+            key={action.id}
+            onClick={() => onRewrite(action.id, action.instruction)}
+            disabled={disabled}
+            title={action.instruction}
+            className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-[11px] font-bold text-gray-300 hover:text-white hover:border-purple-500 disabled:opacity-50 transition-colors"
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={customInstruction}
+          onChange={(e) => setCustomInstruction(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submitCustom(); }}
+          disabled={disabled}
+          placeholder="Or describe the change, e.g. set it at night"
+          className="flex-1 min-w-0 bg-gray-950 border border-gray-700 rounded-lg px-2 py-1 text-xs text-white focus:ring-2 focus:ring-purple-500 focus:outline-none disabled:opacity-50"
+        />
+        <button
+          onClick={submitCustom}
+          disabled={disabled || !customInstruction.trim()}
+          className="px-2 text-purple-300 hover:text-white border border-gray-700 rounded-lg disabled:opacity-50"
+          title="Run this instruction"
+        >
+          <PaperAirplaneIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SceneRewriteBar;
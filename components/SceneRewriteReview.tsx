@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Scene } from '../types';
+import {
+  SceneRewriteProposal,
+  SceneScriptField,
+  SCENE_REWRITE_ACTIONS,
+  SCENE_SCRIPT_FIELDS,
+  changedSceneFields,
+  sceneFieldText,
+} from '../services/sceneRewrite';
+import { diffWords } from '../services/textDiff';
+import { XMarkIcon, CheckIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  proposal: SceneRewriteProposal;
+  current?: Scene; // Missing when the action writes a new scene
+  onAccept: (fields: SceneScriptField[]) => void;
+  onDiscard: () => void;
+}
+
+// Field-by-field diff of a rewrite; the user picks which changes to apply
+const SceneRewriteReview: React.FC<Props> = ({ proposal, current, onAccept, onDiscard }) => {
+  const isNewScene = proposal.action === 'continue';
+  const changed = current && !isNewScene ? changedSceneFields(current, proposal.scene, proposal.cast, proposal.action) : [];
+  const [selected, setSelected] = useState<SceneScriptField[]>(changed);
+  const title = SCENE_REWRITE_ACTIONS.find(a => a.id === proposal.action)?.label || 'Custom rewrite';
+
+  const toggle = (field: SceneScriptField) =>
+    setSelected(prev => prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field]);
+
+  const renderDiff = (field: SceneScriptField) => {
+    const after = sceneFieldText(proposal.scene, field, proposal.cast);
+    if (!current || isNewScene) return <span className="text-gray-200">{after || '(empty)'}</span>;
+    return diffWords(sceneFieldText(current, field, proposal.cast), after).map((part, i) => (
+      <span
+        key={i}
+        className={part.type === 'added' ? 'bg-green-900/60 text-green-200' : part.type === 'removed' ? 'bg-red-900/60 text-red-300 line-through' : 'text-gray-300'}
+      >
+        {part.text}
+      </span>
+    ));
+  };
+
+  const fields = isNewScene ? SCENE_SCRIPT_FIELDS : SCENE_SCRIPT_FIELDS.filter(f => changed.includes(f.id));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-800 w-full max-w-2xl max-h-[90vh] flex flex-col rounded-xl border border-gray-700 shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700 bg-gray-900/50">
+          <h2 className="text-lg font-bold text-white">
+            {title}: {isNewScene ? `new scene after scene ${current?.scene_number ?? ''}` : `scene ${current?.scene_number ?? ''}`}
+          </h2>
+          <button onClick={onDiscard} className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {fields.length === 0 && <p className="text-sm text-gray-400">The rewrite did not change anything.</p>}
+          {fields.map(({ id, label }) => (
+            <div key={id} className="bg-gray-900 rounded-lg border border-gray-700 p-3">
+              <label className="flex items-center gap-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2">
+                {!isNewScene && (
+                  <input type="checkbox" checked={selected.includes(id)} onChange={() => toggle(id)} className="accent-purple-500" />
+                )}
+                {label}
+              </label>
+              <p className="text-sm whitespace-pre-wrap">{renderDiff(id)}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-700 bg-gray-900/50">
+          <button onClick={onDiscard} className="px-4 py-2 text-sm font-bold text-gray-300 hover:text-white border border-gray-600 rounded-lg">
+            Discard
+          </button>
+          <button
+            onClick={() => onAccept(selected)}
+            disabled={!isNewScene && selected.length === 0}
+            className="px-4 py-2 text-sm font-bold text-white bg-purple-600 hover:bg-purple-500 rounded-lg flex items-center gap-1 disabled:opacity-50"
+          >
+            <CheckIcon className="w-4 h-4" />
+            {isNewScene ? 'Insert Scene' : `Apply ${selected.length} change${selected.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SceneRewriteReview;
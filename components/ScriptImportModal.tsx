@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CastMember } from '../types';
+import { SCRIPT_FORMATS, ScriptFormat, ParsedScript, detectScriptFormat, parseScriptText, countSceneGaps } from '../services/scriptImporter';
+import { XMarkIcon, DocumentArrowUpIcon, ArrowPathIcon, SparklesIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  isOpen: boolean;
+  cast: CastMember[]; // Names in the script are matched against this cast
+  busy: boolean;
+  onClose: () => void;
+  onImport: (parsed: ParsedScript, topic: string, fillGaps: boolean) => void;
+}
+
+const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none";
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+const ACCEPTED_FILES = SCRIPT_FORMATS.flatMap(f => f.extensions).join(',');
+
+// Paste or pick a script file, check how it was split into scenes, then open it as a project
+const ScriptImportModal: React.FC<Props> = ({ isOpen, cast, busy, onClose, onImport }) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ScriptFormat | 'auto'>('auto');
+  const [topic, setTopic] = useState('');
+  const [fillGaps, setFillGaps] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setText('');
+      setFileName('');
+      setFormat('auto');
+      setTopic('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const resolvedFormat = format === 'auto' ? detectScriptFormat(text, fileName) : format;
+  const parsed = text.trim() ? parseScriptText(text, resolvedFormat, cast) : undefined;
+  const gaps = parsed ? countSceneGaps(parsed.scenes) : 0;
+  const resolvedTopic = topic.trim() || parsed?.title || fileName.replace(/\.[^.]+$/, '');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    setFileName(file.name);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-800 w-full max-w-2xl max-h-[90vh] flex flex-col rounded-xl border border-gray-700 shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700 bg-gray-900/50">
+          <h2 className="text-xl font-bold text-white">Import Script</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-xs font-bold text-gray-300 hover:text-white flex items-center gap-2"
+            >
+              <DocumentArrowUpIcon className="w-4 h-4" /> Choose File
+            </button>
+            <span className="text-xs text-gray-500 truncate">{fileName || '.txt, .md or .fountain, or paste below'}</span>
+            <input ref={fileInputRef} type="file" accept={ACCEPTED_FILES} className="hidden" onChange={handleFile} />
+          </div>
+
+          <textarea
+            value={text}
+            onChange={(e) => { setText(e.target.value); setFileName(''); }}
+            placeholder={"INT. KITCHEN - NIGHT\n\nMochi sneaks toward the fish bowl.\n\nMOCHI\nNobody will notice..."}
+            spellCheck={false}
+            className={`${inputClass} h-48 font-mono text-xs resize-y`}
+          />
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Format</label>
+              <select value={format} onChange={(e) => setFormat(e.target.value as ScriptFormat | 'auto')} className={inputClass}>
+                <option value="auto">Detect ({SCRIPT_FORMATS.find(f => f.id === resolvedFormat)?.label})</option>
+                {SCRIPT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Topic</label>
+              <input
+                type="text"
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                placeholder={resolvedTopic || 'What the video is about'}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {parsed && (
+            <div className="bg-gray-900 rounded-lg border border-gray-700 p-3 space-y-1 max-h-48 overflow-y-auto">
+              <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2">
+                {parsed.scenes.length} scene{parsed.scenes.length === 1 ? '' : 's'} found
+              </p>
+              {parsed.scenes.map(s => (
+                <p key={s.scene_number} className="text-xs text-gray-300 truncate">
+                  <span className="font-bold text-purple-300">{s.scene_number}.</span>{' '}
+                  {s.background && <span className="text-gray-500">[{s.background}] </span>}
+                  {s.description || s.dialogue || '(empty)'}
+                  {s.characters.length > 0 && <span className="text-gray-500"> · {s.characters.map(c => c.name).join(', ')}</span>}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={fillGaps} onChange={(e) => setFillGaps(e.target.checked)} className="accent-purple-500" />
+            <SparklesIcon className="w-4 h-4 text-purple-400" />
+            Fill empty fields with the script model {parsed && `(${gaps} empty)`}
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-700 bg-gray-900/50">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-gray-300 hover:text-white border border-gray-600 rounded-lg">
+            Cancel
+          </button>
+          <button
+            onClick={() => parsed && onImport(parsed, resolvedTopic || parsed.scenes[0]?.description || 'Imported script', fillGaps)}
+            disabled={busy || !parsed || parsed.scenes.length === 0}
+            className="px-4 py-2 text-sm font-bold text-white bg-purple-600 hover:bg-purple-500 rounded-lg flex items-center gap-2 disabled:opacity-50"
+          >
+            {busy && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+            {busy ? 'Importing...' : 'Open in Editor'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptImportModal;
@@ -0,0 +1,134 @@
+import React from 'react';
+import { ScriptOptions, ScriptPlatform } from '../types';
+import { SCRIPT_PLATFORMS, SCRIPT_LANGUAGES, MAX_SCRIPT_SCENES, validateScriptOptions } from '../services/scriptOptions';
+import { DocumentTextIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  options: ScriptOptions;
+  onChange: (options: ScriptOptions) => void;
+}
+
+const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none placeholder-gray-600";
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+const TONES = ['Comedic', 'Heartwarming', 'Educational', 'Dramatic', 'Mysterious', 'Action-packed', 'Whimsical', 'Inspirational'];
+
+// Empty numeric inputs clear the field
+const toNumber = (value: string) => value === '' ? undefined : Math.max(1, Math.round(Number(value)));
+
+// Length, structure and voice of the script requested from the model
+const ScriptOptionsPanel: React.FC<Props> = ({ options, onChange }) => {
+  const update = (patch: Partial<ScriptOptions>) => onChange({ ...options, ...patch });
+  const problems = validateScriptOptions(options);
+
+  return (
+    <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700 space-y-3">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+        <DocumentTextIcon className="w-3 h-3 text-purple-400" />
+        Script Options
+      </span>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Length (s)</label>
+          <input
+            type="number"
+            min={5}
+            value={options.targetDurationSeconds ?? ''}
+            onChange={(e) => update({ targetDurationSeconds: toNumber(e.target.value) })}
+            placeholder="Any"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Min scenes</label>
+          <input
+            type="number"
+            min={1}
+            max={MAX_SCRIPT_SCENES}
+            value={options.minScenes ?? ''}
+            onChange={(e) => update({ minScenes: toNumber(e.target.value) })}
+            placeholder="Auto"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Max scenes</label>
+          <input
+            type="number"
+            min={1}
+            max={MAX_SCRIPT_SCENES}
+            value={options.maxScenes ?? ''}
+            onChange={(e) => update({ maxScenes: toNumber(e.target.value) })}
+            placeholder="Auto"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Tone / Genre</label>
+          <input
+            type="text"
+            list="script-tones"
+            value={options.tone || ''}
+            onChange={(e) => update({ tone: e.target.value || undefined })}
+            placeholder="Any"
+            className={inputClass}
+          />
+          <datalist id="script-tones">
+            {TONES.map(t => <option key={t} value={t} />)}
+          </datalist>
+        </div>
+        <div>
+          <label className={labelClass}>Audience</label>
+          <input
+            type="text"
+            value={options.audience || ''}
+            onChange={(e) => update({ audience: e.target.value || undefined })}
+            placeholder="e.g., kids 6-10"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Language</label>
+          <input
+            type="text"
+            list="script-languages"
+            value={options.language || ''}
+            onChange={(e) => update({ language: e.target.value || undefined })}
+            placeholder="English"
+            className={inputClass}
+          />
+          <datalist id="script-languages">
+            {SCRIPT_LANGUAGES.map(l => <option key={l.code} value={l.name} />)}
+          </datalist>
+        </div>
+        <div>
+          <label className={labelClass}>Platform</label>
+          <select
+            value={options.platform || 'generic'}
+            onChange={(e) => update({ platform: e.target.value === 'generic' ? undefined : e.target.value as ScriptPlatform })}
+            className={inputClass}
+            title="Adds an opening hook and a call to action suited to the platform"
+          >
+            {SCRIPT_PLATFORMS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="text-[11px] text-yellow-400 space-y-1">
+          {problems.map(problem => (
+            <li key={problem} className="flex items-start gap-1">
+              <ExclamationTriangleIcon className="w-3 h-3 mt-0.5 shrink-0" /> {problem}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScriptOptionsPanel;
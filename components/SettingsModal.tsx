@@ -1,6 +1,8 @@
 
 import React, { useState, useEffect } from 'react';
-import { XMarkIcon, KeyIcon, CommandLineIcon, CheckCircleIcon } from '@heroicons/react/24/solid';
+import { XMarkIcon, KeyIcon, CommandLineIcon, CheckCircleIcon, SpeakerWaveIcon, CpuChipIcon } from '@heroicons/react/24/solid';
+import { VOICEOVER_PROVIDERS, getVoiceoverProvider, setVoiceoverProvider } from '../services/voiceoverService';
+import { GENERATION_PROVIDERS, getGenerationProvider, setGenerationProvider } from '../services/providers';
 
 interface Props {
   isOpen: boolean;
@@ -12,12 +14,16 @@ interface Props {
 const SettingsModal: React.FC<Props> = ({ isOpen, onClose, showLogs, onToggleLogs }) => {
   const [apiKeyInput, setApiKeyInput] = useState('');
   const [saved, setSaved] = useState(false);
+  const [voiceProviderId, setVoiceProviderId] = useState(getVoiceoverProvider().id);
+  const [generationProviderId, setGenerationProviderId] = useState(getGenerationProvider().id);
 
   useEffect(() => {
     if (isOpen) {
       const currentKey = localStorage.getItem("gemini_api_key") || '';
       setApiKeyInput(currentKey);
       setSaved(false);
+      setVoiceProviderId(getVoiceoverProvider().id);
+      setGenerationProviderId(getGenerationProvider().id);
     }
   }, [isOpen]);
 
@@ -35,6 +41,16 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, showLogs, onToggleLog
     }
   };
 
+  const handleVoiceProviderChange = (id: string) => {
+    setVoiceoverProvider(id);
+    setVoiceProviderId(id);
+  };
+
+  const handleGenerationProviderChange = (id: string) => {
+    setGenerationProvider(id);
+    setGenerationProviderId(id);
+  };
+
   const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-3 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none placeholder-gray-500 transition-all shadow-sm";
 
   return (
@@ -101,6 +117,56 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, showLogs, onToggleLog
             </div>
           </div>
 
+          {/* Generation Backend Section */}
+          <div>
+            <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">Generation Backend</h3>
+            <div className="flex items-center justify-between bg-gray-900 rounded-lg p-4 border border-gray-700">
+              <div className="flex items-center space-x-4">
+                <div className="p-2 rounded-lg bg-blue-900/30">
+                  <CpuChipIcon className="w-6 h-6 text-blue-400" />
+                </div>
+                <div>
+                  <h4 className="text-white font-medium">Scripts, Images & Video</h4>
+                  <p className="text-sm text-gray-400">The offline mock returns placeholder media without network</p>
+                </div>
+              </div>
+              <select
+                value={generationProviderId}
+                onChange={(e) => handleGenerationProviderChange(e.target.value)}
+                className="bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+              >
+                {GENERATION_PROVIDERS.map(p => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Voiceover Section */}
+          <div>
+            <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">Voiceover</h3>
+            <div className="flex items-center justify-between bg-gray-900 rounded-lg p-4 border border-gray-700">
+              <div className="flex items-center space-x-4">
+                <div className="p-2 rounded-lg bg-green-900/30">
+                  <SpeakerWaveIcon className="w-6 h-6 text-green-400" />
+                </div>
+                <div>
+                  <h4 className="text-white font-medium">Speech Engine</h4>
+                  <p className="text-sm text-gray-400">Use the offline stub when working without an API key</p>
+                </div>
+              </div>
+              <select
+                value={voiceProviderId}
+                onChange={(e) => handleVoiceProviderChange(e.target.value)}
+                className="bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+              >
+                {VOICEOVER_PROVIDERS.map(p => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           {/* Developer Section */}
           <div>
             <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">Developer Tools</h3>
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { DocumentDuplicateIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
+
+export type StoryboardFormat = 'html' | 'pdf';
+
+interface Props {
+  progress: number | null; // Export in progress, 0..1
+  onExport: (format: StoryboardFormat) => void;
+}
+
+const FORMATS: { id: StoryboardFormat; label: string; hint: string }[] = [
+  { id: 'pdf', label: 'PDF', hint: 'Paginated A4, ready to send' },
+  { id: 'html', label: 'HTML', hint: 'Single file, opens in any browser and prints' },
+];
+
+// Header button for the client-review storyboard exports
+const StoryboardExportMenu: React.FC<Props> = ({ progress, onExport }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={progress !== null}
+        className="flex items-center space-x-2 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg hover:bg-gray-700 disabled:opacity-70 text-sm font-bold transition-colors"
+        title="Export the storyboard for review"
+      >
+        {progress !== null
+          ? <ArrowPathIcon className="w-4 h-4 animate-spin text-purple-400" />
+          : <DocumentDuplicateIcon className="w-4 h-4 text-gray-300" />}
+        <span className="hidden sm:inline">{progress !== null ? `Storyboard ${Math.round(progress * 100)}%` : 'Storyboard'}</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-60 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40 overflow-hidden">
+          {FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => { setOpen(false); onExport(format.id); }}
+              className="w-full text-left px-4 py-2 hover:bg-gray-700 transition-colors"
+            >
+              <span className="block text-sm font-bold text-white">{format.label}</span>
+              <span className="block text-[11px] text-gray-400">{format.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoryboardExportMenu;
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Scene, AspectRatio } from '../types';
+import { getAspectSpec } from '../services/aspectRatio';
+import { XMarkIcon, ArrowPathIcon, PhotoIcon, ExclamationTriangleIcon, VideoCameraIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  scenes: Scene[];
+  aspectRatio?: AspectRatio;
+  onClose: () => void;
+  onGenerateAll: () => void;
+  onGenerateScene: (index: number) => void;
+  onSelectScene: (index: number) => void;
+  onGenerateMovie: () => void;
+}
+
+const isBusy = (scene: Scene) => scene.previewStatus === 'pending' || scene.previewStatus === 'generating';
+
+// All storyboard frames side by side, to review the look of the whole video before paying for clips
+const StoryboardGrid: React.FC<Props> = ({ scenes, aspectRatio, onClose, onGenerateAll, onGenerateScene, onSelectScene, onGenerateMovie }) => {
+  const spec = getAspectSpec(aspectRatio);
+  const framed = scenes.filter(s => s.previewImageUrl).length;
+  const busy = scenes.filter(isBusy).length;
+  const missing = scenes.filter(s => !isBusy(s) && (!s.previewImageUrl || s.previewStatus === 'error')).length;
+  const columns = spec.id === '9:16' ? 'grid-cols-3 sm:grid-cols-4 lg:grid-cols-6' : 'grid-cols-2 sm:grid-cols-3 lg:grid-cols-4';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 w-full max-w-6xl max-h-[90vh] flex flex-col rounded-xl border border-gray-700 shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700 bg-gray-900/50">
+          <div>
+            <h2 className="text-xl font-bold text-white">Storyboard Frames</h2>
+            <p className="text-xs text-gray-400">
+              {framed} of {scenes.length} scenes have a frame{busy > 0 && `, ${busy} generating`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onGenerateAll}
+              disabled={missing === 0}
+              className="px-3 py-2 text-xs font-bold text-white bg-purple-600 hover:bg-purple-500 rounded-lg flex items-center gap-2 disabled:opacity-50"
+              title={missing === 0 ? 'Every scene has a frame' : 'Generate frames for scenes without one, and retry failed ones'}
+            >
+              <PhotoIcon className="w-4 h-4" />
+              Generate {missing > 0 ? `${missing} ` : ''}Missing Frame{missing === 1 ? '' : 's'}
+            </button>
+            <button
+              onClick={() => { onClose(); onGenerateMovie(); }}
+              disabled={framed === 0 || busy > 0}
+              className="px-3 py-2 text-xs font-bold text-white bg-gradient-to-r from-green-600 to-teal-600 hover:from-green-500 hover:to-teal-500 rounded-lg flex items-center gap-2 disabled:opacity-50"
+            >
+              <VideoCameraIcon className="w-4 h-4" />
+              Looks Good, Generate Movie
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className={`p-6 grid ${columns} gap-4 overflow-y-auto`}>
+          {scenes.map((scene, index) => (
+            <div key={scene.id} className="space-y-1">
+              <div
+                onClick={() => { onSelectScene(index); onClose(); }}
+                className={`relative ${spec.frameClass} bg-gray-900 rounded-lg overflow-hidden border cursor-pointer group ${
+                  scene.previewStatus === 'error' ? 'border-red-500/60' : 'border-gray-700 hover:border-purple-500'
+                }`}
+                title="Open this scene in the editor"
+              >
+                {scene.previewImageUrl ? (
+                  <img
+                    src={scene.previewImageUrl}
+                    alt={`Scene ${scene.scene_number}`}
+                    className={`w-full h-full object-cover ${isBusy(scene) ? 'opacity-40' : ''}`}
+                    draggable={false}
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-gray-600">
+                    <PhotoIcon className="w-8 h-8" />
+                  </div>
+                )}
+
+                {isBusy(scene) && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 text-xs text-purple-300">
+                    <ArrowPathIcon className="w-6 h-6 animate-spin" />
+                    {scene.previewStatus === 'pending' ? 'Queued' : 'Generating'}
+                  </div>
+                )}
+                {scene.previewStatus === 'error' && (
+                  <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center gap-1 text-xs text-red-300">
+                    <ExclamationTriangleIcon className="w-6 h-6" />
+                    Failed
+                  </div>
+                )}
+
+                <div className="absolute top-1 left-2 text-xs font-mono font-bold text-white drop-shadow-md">
+                  {scene.scene_number}
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onGenerateScene(index); }}
+                  disabled={isBusy(scene)}
+                  className="absolute top-1 right-1 p-1 bg-black/70 rounded text-gray-300 hover:text-purple-300 opacity-0 group-hover:opacity-100 disabled:hidden transition-opacity"
+                  title={scene.previewStatus === 'error' ? 'Retry this frame' : scene.previewImageUrl ? 'Regenerate this frame' : 'Generate this frame'}
+                >
+                  <ArrowPathIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-[11px] text-gray-400 line-clamp-2" title={scene.description}>
+                {scene.description || '(no description)'}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoryboardGrid;
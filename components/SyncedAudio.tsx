@@ -0,0 +1,46 @@
+import React, { useEffect, useRef } from 'react';
+
+interface Props {
+  src?: string;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+}
+
+// Allowed drift before the audio is snapped back to the video position
+const MAX_DRIFT_SECONDS = 0.25;
+
+// Plays an audio track locked to a video element: follows its play/pause state and position
+const SyncedAudio: React.FC<Props> = ({ src, videoRef }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (!src) return;
+    let frame = 0;
+    const sync = () => {
+      const audio = audioRef.current;
+      const video = videoRef.current;
+      if (audio && video) {
+        const videoPlaying = !video.paused && !video.ended;
+        const withinAudio = !audio.duration || video.currentTime < audio.duration;
+        if (videoPlaying && withinAudio) {
+          if (Math.abs(audio.currentTime - video.currentTime) > MAX_DRIFT_SECONDS) {
+            audio.currentTime = video.currentTime;
+          }
+          if (audio.paused) audio.play().catch(() => undefined);
+        } else if (!audio.paused) {
+          audio.pause();
+        }
+      }
+      frame = requestAnimationFrame(sync);
+    };
+    sync();
+    return () => {
+      cancelAnimationFrame(frame);
+      audioRef.current?.pause();
+    };
+  }, [src, videoRef]);
+
+  if (!src) return null;
+  return <audio ref={audioRef} src={src} preload="auto" className="hidden" />;
+};
+
+export default SyncedAudio;
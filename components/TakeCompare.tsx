@@ -0,0 +1,80 @@
+import React, { useRef, useState } from 'react';
+import { SceneTake, AspectRatio } from '../types';
+import { getAspectSpec } from '../services/aspectRatio';
+import { PlayIcon, PauseIcon, XMarkIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  activeTake: SceneTake;
+  otherTake: SceneTake;
+  aspectRatio?: AspectRatio; // Project format, for takes that do not record their own
+  onUseOther: () => void;
+  onClose: () => void;
+}
+
+// Two takes side by side, played together from the start so timing differences are easy to spot
+const TakeCompare: React.FC<Props> = ({ activeTake, otherTake, aspectRatio, onUseOther, onClose }) => {
+  const leftRef = useRef<HTMLVideoElement>(null);
+  const rightRef = useRef<HTMLVideoElement>(null);
+  const [playing, setPlaying] = useState(false);
+
+  const videos = () => [leftRef.current, rightRef.current].filter((v): v is HTMLVideoElement => !!v);
+
+  const togglePlay = () => {
+    if (playing) {
+      videos().forEach(v => v.pause());
+      setPlaying(false);
+      return;
+    }
+    // Restart both when either has finished so they stay aligned
+    if (videos().some(v => v.ended)) videos().forEach(v => { v.currentTime = 0; });
+    videos().forEach(v => v.play().catch(() => undefined));
+    setPlaying(true);
+  };
+
+  const handleEnded = () => {
+    if (videos().every(v => v.ended)) setPlaying(false);
+  };
+
+  const column = (label: string, take: SceneTake, ref: React.RefObject<HTMLVideoElement>, accent: string) => (
+    <div className="flex-1 flex flex-col items-center gap-2 min-w-0">
+      <span className={`text-[10px] font-bold uppercase tracking-wider ${accent}`}>{label}</span>
+      <div className={`relative ${getAspectSpec(take.aspectRatio || aspectRatio).frameClass} w-full bg-gray-800 rounded-lg overflow-hidden border border-gray-700`}>
+        <video ref={ref} src={take.videoUrl} className="w-full h-full object-cover" onEnded={handleEnded} muted playsInline />
+      </div>
+      <span className="text-[10px] text-gray-500 font-mono truncate max-w-full">{take.model}</span>
+    </div>
+  );
+
+  return (
+    <div className="w-full flex flex-col gap-3">
+      <div className="flex gap-2">
+        {column('Active', activeTake, leftRef, 'text-purple-300')}
+        {column('Candidate', otherTake, rightRef, 'text-blue-300')}
+      </div>
+      <div className="flex items-center justify-center gap-2">
+        <button
+          onClick={togglePlay}
+          className="p-2 bg-white/10 hover:bg-white/20 rounded-full transition-colors"
+          title={playing ? 'Pause both' : 'Play both'}
+        >
+          {playing ? <PauseIcon className="w-5 h-5 text-white" /> : <PlayIcon className="w-5 h-5 text-white" />}
+        </button>
+        <button
+          onClick={onUseOther}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-xs font-bold text-white transition-colors"
+        >
+          Use Candidate
+        </button>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-white"
+          title="Close comparison"
+        >
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TakeCompare;
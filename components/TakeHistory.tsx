@@ -0,0 +1,93 @@
+import React from 'react';
+import { Scene } from '../types';
+import { getSceneTakes, isActiveTake } from '../services/projectUtils';
+import { CheckCircleIcon, ArrowsRightLeftIcon, TrashIcon, FingerPrintIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  scene: Scene;
+  compareTakeId: string | null;
+  onSelect: (takeId: string) => void;
+  onCompare: (takeId: string | null) => void;
+  onDelete: (takeId: string) => void;
+  onUseSeed?: (seed: number) => void; // Copies a take's seed into the scene's advanced settings
+}
+
+const formatTakeTime = (createdAt: number) =>
+  createdAt ? new Date(createdAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) : 'Earlier';
+
+// Every generated clip of a scene, newest first; the active take is the one used for playback and export
+const TakeHistory: React.FC<Props> = ({ scene, compareTakeId, onSelect, onCompare, onDelete, onUseSeed }) => {
+  const takes = getSceneTakes(scene);
+  if (takes.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {takes.map((take, index) => ({ take, number: index + 1 })).reverse().map(({ take, number }) => {
+        const active = isActiveTake(scene, take);
+        const comparing = compareTakeId === take.id;
+        return (
+          <div
+            key={take.id}
+            className={`flex items-center gap-3 p-2 rounded-lg border transition-colors ${
+              active ? 'border-purple-500/60 bg-purple-900/10' : comparing ? 'border-blue-500/60 bg-blue-900/10' : 'border-gray-700 bg-gray-800/40'
+            }`}
+          >
+            <video src={take.videoUrl} className="w-10 h-16 object-cover rounded bg-gray-900 flex-shrink-0" muted playsInline preload="metadata" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 text-xs font-bold text-white">
+                Take {number}
+                {active && <span className="text-[10px] uppercase tracking-wider text-purple-300">Active</span>}
+              </div>
+              <div className="text-[10px] text-gray-500 font-mono truncate">
+                {formatTakeTime(take.createdAt)} • {take.model}{take.seed !== undefined ? ` • seed ${take.seed}` : ''}
+              </div>
+              {take.prompt && (
+                <div className="text-[10px] text-gray-400 truncate" title={take.prompt}>{take.prompt.replace(/\s+/g, ' ')}</div>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              {onUseSeed && take.seed !== undefined && (
+                <button
+                  onClick={() => onUseSeed(take.seed!)}
+                  className={`p-1.5 ${scene.advanced?.seed === take.seed ? 'text-orange-400' : 'text-gray-400 hover:text-orange-300'}`}
+                  title={`Reuse seed ${take.seed} for the next generation`}
+                >
+                  <FingerPrintIcon className="w-4 h-4" />
+                </button>
+              )}
+              {!active && (
+                <button
+                  onClick={() => onSelect(take.id)}
+                  className="p-1.5 text-gray-400 hover:text-purple-300"
+                  title="Use this take"
+                >
+                  <CheckCircleIcon className="w-4 h-4" />
+                </button>
+              )}
+              {!active && (
+                <button
+                  onClick={() => onCompare(comparing ? null : take.id)}
+                  className={`p-1.5 ${comparing ? 'text-blue-400' : 'text-gray-400 hover:text-blue-300'}`}
+                  title={comparing ? 'Stop comparing' : 'Compare with active take'}
+                >
+                  <ArrowsRightLeftIcon className="w-4 h-4" />
+                </button>
+              )}
+              {!active && (
+                <button
+                  onClick={() => onDelete(take.id)}
+                  className="p-1.5 text-gray-500 hover:text-red-400"
+                  title="Delete take"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TakeHistory;
@@ -1,24 +1,75 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Scene } from '../types';
+import { DocumentDuplicateIcon, TrashIcon, SparklesIcon, PlusIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
 
 interface Props {
   scenes: Scene[];
   activeSceneIndex: number;
   onSceneSelect: (index: number) => void;
+  onAddScene: (afterIndex: number) => void;
+  onInsertAiScene: (afterIndex: number) => void;
+  insertingAfterIndex: number | null;
+  onDuplicateScene: (index: number) => void;
+  onDeleteScene: (index: number) => void;
+  onReorderScene: (from: number, to: number) => void;
 }
 
-const Timeline: React.FC<Props> = ({ scenes, activeSceneIndex, onSceneSelect }) => {
+const Timeline: React.FC<Props> = ({
+  scenes,
+  activeSceneIndex,
+  onSceneSelect,
+  onAddScene,
+  onInsertAiScene,
+  insertingAfterIndex,
+  onDuplicateScene,
+  onDeleteScene,
+  onReorderScene,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onReorderScene(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const isInserting = insertingAfterIndex !== null;
+
   return (
     <div className="w-full overflow-x-auto bg-gray-900 border-t border-gray-700 p-4 sticky bottom-0 z-20">
       <div className="flex space-x-4 min-w-max">
         {scenes.map((scene, index) => (
           <div
-            key={index}
+            key={scene.id}
+            draggable
+            onDragStart={(e) => {
+              setDragIndex(index);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(current => current === index ? null : current)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
             onClick={() => onSceneSelect(index)}
             className={`cursor-pointer relative flex-shrink-0 w-32 h-24 rounded-lg border-2 transition-all duration-200 overflow-hidden group ${
               index === activeSceneIndex
                 ? 'border-purple-500 shadow-[0_0_10px_rgba(168,85,247,0.5)]'
                 : 'border-gray-700 hover:border-gray-500'
+            } ${dragIndex === index ? 'opacity-40' : ''} ${
+              dropIndex === index && dragIndex !== index ? 'ring-2 ring-blue-400' : ''
             }`}
           >
             {/* Status Indicator */}
@@ -28,6 +79,46 @@ const Timeline: React.FC<Props> = ({ scenes, activeSceneIndex, onSceneSelect })
                 scene.status === 'error' ? 'bg-red-500' : 'bg-gray-500'
             }`} />
 
+            {/* Scene actions */}
+            <div className="absolute top-1 left-1 z-20 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={(e) => { e.stopPropagation(); onDuplicateScene(index); }}
+                className="p-1 bg-black/70 rounded text-gray-300 hover:text-white"
+                title="Duplicate scene"
+              >
+                <DocumentDuplicateIcon className="w-3 h-3" />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onAddScene(index); }}
+                className="p-1 bg-black/70 rounded text-gray-300 hover:text-white"
+                title="Insert a blank scene after this one"
+              >
+                <PlusIcon className="w-3 h-3" />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onInsertAiScene(index); }}
+                disabled={isInserting}
+                className="p-1 bg-black/70 rounded text-gray-300 hover:text-purple-300 disabled:opacity-50"
+                title="Write a new scene after this one with AI"
+              >
+                <SparklesIcon className="w-3 h-3" />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDeleteScene(index); }}
+                disabled={scenes.length <= 1}
+                className="p-1 bg-black/70 rounded text-gray-300 hover:text-red-400 disabled:opacity-30"
+                title={scenes.length <= 1 ? 'A project needs at least one scene' : 'Delete scene'}
+              >
+                <TrashIcon className="w-3 h-3" />
+              </button>
+            </div>
+
+            {insertingAfterIndex === index && (
+              <div className="absolute inset-0 z-20 bg-black/60 flex items-center justify-center">
+                <ArrowPathIcon className="w-5 h-5 text-purple-400 animate-spin" />
+              </div>
+            )}
+
             <div className="absolute bottom-1 left-2 text-xs font-mono font-bold text-white z-10 drop-shadow-md">
               Scene {scene.scene_number}
             </div>
@@ -39,6 +130,13 @@ const Timeline: React.FC<Props> = ({ scenes, activeSceneIndex, onSceneSelect })
                 muted
                 playsInline
               />
+            ) : scene.previewImageUrl ? (
+              <img
+                src={scene.previewImageUrl}
+                alt={`Scene ${scene.scene_number}`}
+                className="w-full h-full object-cover opacity-80 group-hover:opacity-100"
+                draggable={false}
+              />
             ) : (
               <div className="w-full h-full bg-gray-800 flex items-center justify-center">
                 <span className="text-2xl text-gray-600">🎬</span>
@@ -51,13 +149,28 @@ const Timeline: React.FC<Props> = ({ scenes, activeSceneIndex, onSceneSelect })
             </div>
           </div>
         ))}
-        {/* Add new scene placeholder if needed */}
-        <div className="w-32 h-24 border border-dashed border-gray-700 rounded-lg flex items-center justify-center text-gray-500 text-sm hover:text-gray-300 hover:border-gray-500 cursor-not-allowed" title="Add Scene (Coming Soon)">
-          + Add Scene
+        {/* Add new scene at the end */}
+        <div className="w-32 h-24 border border-dashed border-gray-700 rounded-lg flex flex-col items-stretch justify-center gap-2 p-2 text-gray-500 text-xs">
+          <button
+            onClick={() => onAddScene(scenes.length - 1)}
+            className="flex items-center justify-center gap-1 py-1 rounded hover:text-gray-300 hover:bg-gray-800 transition-colors"
+          >
+            <PlusIcon className="w-3 h-3" /> Blank Scene
+          </button>
+          <button
+            onClick={() => onInsertAiScene(scenes.length - 1)}
+            disabled={isInserting}
+            className="flex items-center justify-center gap-1 py-1 rounded hover:text-purple-300 hover:bg-gray-800 disabled:opacity-50 transition-colors"
+          >
+            {insertingAfterIndex === scenes.length - 1
+              ? <ArrowPathIcon className="w-3 h-3 animate-spin" />
+              : <SparklesIcon className="w-3 h-3" />}
+            AI Scene
+          </button>
         </div>
       </div>
     </div>
   );
 };
 
-export default Timeline;
\ No newline at end of file
+export default Timeline;
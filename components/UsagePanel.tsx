@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { SpendingBudget, UsageTotals } from '../types';
+import { usageTracker, formatCost, EMPTY_TOTALS } from '../services/usageTracker';
+import { BanknotesIcon } from '@heroicons/react/24/solid';
+
+interface Props {
+  projectId: string;
+  budget?: SpendingBudget;
+  onChangeBudget: (budget: SpendingBudget | undefined) => void;
+}
+
+const inputClass = "bg-gray-950 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none";
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+// Running spend of the project and its budget
+const UsagePanel: React.FC<Props> = ({ projectId, budget, onChangeBudget }) => {
+  const [totals, setTotals] = useState<UsageTotals>(EMPTY_TOTALS);
+
+  useEffect(() => usageTracker.subscribe(all => setTotals(all[projectId] || EMPTY_TOTALS)), [projectId]);
+
+  const used = budget && budget.limit > 0 ? Math.min(1, totals.cost / budget.limit) : 0;
+
+  return (
+    <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <BanknotesIcon className="w-3 h-3 text-green-400" />
+          Usage & Budget
+        </span>
+        <span className="text-sm font-mono font-bold text-white">
+          {formatCost(totals.cost)}{budget ? ` / ${formatCost(budget.limit)}` : ''}
+        </span>
+      </div>
+
+      {budget && (
+        <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${used >= 1 ? 'bg-red-500' : used >= 0.8 ? 'bg-yellow-500' : 'bg-green-500'}`}
+            style={{ width: `${used * 100}%` }}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 text-[11px] text-gray-400 font-mono">
+        <span>{totals.videoSeconds}s video</span>
+        <span>{totals.images} images</span>
+        <span>{(totals.inputTokens + totals.outputTokens).toLocaleString()} tokens</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Budget (USD)</label>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={budget?.limit ?? ''}
+            placeholder="No budget"
+            onChange={(e) => onChangeBudget(e.target.value === ''
+              ? undefined
+              : { limit: Math.max(0, Number(e.target.value)), mode: budget?.mode || 'warn' })}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>When exceeded</label>
+          <select
+            value={budget?.mode || 'warn'}
+            disabled={!budget}
+            onChange={(e) => budget && onChangeBudget({ ...budget, mode: e.target.value as SpendingBudget['mode'] })}
+            className={`${inputClass} w-full disabled:opacity-50`}
+          >
+            <option value="warn">Warn and ask</option>
+            <option value="block">Block generation</option>
+          </select>
+        </div>
+      </div>
+
+      <p className="text-[10px] text-gray-500">Estimated from list prices; your Google Cloud bill is authoritative.</p>
+    </div>
+  );
+};
+
+export default UsagePanel;
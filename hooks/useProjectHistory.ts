@@ -0,0 +1,123 @@
+import { useCallback, useRef, useState } from 'react';
+import { Project, Scene } from '../types';
+import { settleSceneStatus } from '../services/projectUtils';
+
+const MAX_HISTORY = 100;
+// Edits with the same coalesce key closer together than this form one undo step
+const COALESCE_MS = 1000;
+
+export interface HistoryOptions {
+  // e.g. `scene:<id>:description` so typing in one field undoes as a single step
+  coalesceKey?: string;
+  // Job status flags and other bookkeeping that should not become an undo step
+  transient?: boolean;
+}
+
+export type ProjectUpdate = Project | null | ((prev: Project | null) => Project | null);
+
+const isInFlight = (scene: Scene) =>
+  scene.status === 'generating' || scene.status === 'pending' ||
+  scene.idleStatus === 'generating' || scene.voiceoverStatus === 'generating' ||
+  scene.previewStatus === 'generating' || scene.previewStatus === 'pending';
+
+/**
+ * Snapshots may have been taken while a job was running. Scenes whose job is still running keep
+ * their live status flags so the result lands normally; the rest are settled from their media.
+ */
+const restoreSnapshot = (snapshot: Project, present: Project | null): Project => ({
+  ...snapshot,
+  scenes: snapshot.scenes.map(snapshotScene => {
+    const live = present?.scenes.find(s => s.id === snapshotScene.id);
+    // Saved operations describe work happening now, not part of the edit being undone
+    const scene = {
+      ...snapshotScene,
+      pendingOperation: live?.pendingOperation,
+      pendingIdleOperation: live?.pendingIdleOperation,
+    };
+    const settled = settleSceneStatus(scene);
+    if (!live || !isInFlight(live)) return settled;
+    return {
+      ...settled,
+      status: live.status === 'generating' || live.status === 'pending' ? live.status : settled.status,
+      idleStatus: live.idleStatus === 'generating' ? live.idleStatus : settled.idleStatus,
+      voiceoverStatus: live.voiceoverStatus === 'generating' ? live.voiceoverStatus : settled.voiceoverStatus,
+      previewStatus: live.previewStatus === 'generating' || live.previewStatus === 'pending' ? live.previewStatus : settled.previewStatus,
+    };
+  }),
+});
+
+/**
+ * Undo/redo over whole-project snapshots. Snapshots share unchanged objects with the present,
+ * and the blob URLs they hold are never revoked, so regenerated media can be restored too.
+ */
+export const useProjectHistory = () => {
+  const [project, setPresent] = useState<Project | null>(null);
+  // Mirrors `project` synchronously so updates issued from async jobs always build on the latest state
+  const presentRef = useRef<Project | null>(null);
+  const pastRef = useRef<Project[]>([]);
+  const futureRef = useRef<Project[]>([]);
+  const lastEditRef = useRef<{ key?: string; at: number } | null>(null);
+
+  const commit = (next: Project | null) => {
+    presentRef.current = next;
+    setPresent(next);
+  };
+
+  const setProject = useCallback((update: ProjectUpdate, options: HistoryOptions = {}) => {
+    const prev = presentRef.current;
+    const next = typeof update === 'function' ? update(prev) : update;
+    if (next === prev) return;
+
+    if (prev && next && !options.transient) {
+      const now = Date.now();
+      const last = lastEditRef.current;
+      const coalesce = !!options.coalesceKey && last?.key === options.coalesceKey && now - last.at < COALESCE_MS;
+      if (!coalesce) {
+        pastRef.current = [...pastRef.current.slice(-(MAX_HISTORY - 1)), prev];
+      }
+      futureRef.current = [];
+      lastEditRef.current = { key: options.coalesceKey, at: now };
+    }
+    commit(next);
+  }, []);
+
+  // Replaces the project and starts a fresh history (opening, creating or closing a project)
+  const resetProject = useCallback((next: Project | null) => {
+    pastRef.current = [];
+    futureRef.current = [];
+    lastEditRef.current = null;
+    commit(next);
+  }, []);
+
+  const undo = useCallback(() => {
+    const present = presentRef.current;
+    const previous = pastRef.current[pastRef.current.length - 1];
+    if (!present || !previous) return false;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, present];
+    lastEditRef.current = null;
+    commit(restoreSnapshot(previous, present));
+    return true;
+  }, []);
+
+  const redo = useCallback(() => {
+    const present = presentRef.current;
+    const next = futureRef.current[futureRef.current.length - 1];
+    if (!present || !next) return false;
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, present];
+    lastEditRef.current = null;
+    commit(restoreSnapshot(next, present));
+    return true;
+  }, []);
+
+  return {
+    project,
+    setProject,
+    resetProject,
+    undo,
+    redo,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+  };
+};
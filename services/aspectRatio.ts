@@ -0,0 +1,80 @@
+import { AspectRatio } from '../types';
+
+// Fractions of the frame that platform UI covers; captions stay inside the rest
+export interface SafeArea {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface AspectRatioSpec {
+  id: AspectRatio;
+  label: string;
+  promptFormat: string; // How prompts describe the frame
+  // Veo only renders 16:9 and 9:16; other formats are generated in one of them and cropped to the frame
+  videoAspectRatio: '9:16' | '16:9';
+  imageAspectRatio: string;
+  outputWidth: number; // Final movie render size
+  outputHeight: number;
+  frameClass: string; // Tailwind aspect class for thumbnails and small previews
+  editorFrameClass: string; // Main preview in the editor
+  playerFrameClass: string; // Full screen player, fitted to the viewport
+  captionSafeArea: SafeArea;
+}
+
+export const ASPECT_RATIOS: AspectRatioSpec[] = [
+  {
+    id: '9:16',
+    label: 'Vertical 9:16',
+    promptFormat: 'vertical 9:16',
+    videoAspectRatio: '9:16',
+    imageAspectRatio: '9:16',
+    outputWidth: 720,
+    outputHeight: 1280,
+    frameClass: 'aspect-[9/16]',
+    editorFrameClass: 'aspect-[9/16] h-[80vh] max-h-[700px]',
+    playerFrameClass: 'h-full w-full max-w-[56.25vh] aspect-[9/16]',
+    // TikTok / Reels / Shorts buttons, description and progress bar
+    captionSafeArea: { top: 0.12, bottom: 0.22, left: 0.06, right: 0.16 },
+  },
+  {
+    id: '16:9',
+    label: 'Landscape 16:9',
+    promptFormat: 'landscape 16:9',
+    videoAspectRatio: '16:9',
+    imageAspectRatio: '16:9',
+    outputWidth: 1280,
+    outputHeight: 720,
+    frameClass: 'aspect-[16/9]',
+    editorFrameClass: 'aspect-[16/9] w-full max-w-[900px]',
+    playerFrameClass: 'w-full max-w-[177.78vh] aspect-[16/9]',
+    // Player controls along the bottom edge, title along the top
+    captionSafeArea: { top: 0.08, bottom: 0.12, left: 0.05, right: 0.05 },
+  },
+  {
+    id: '1:1',
+    label: 'Square 1:1',
+    promptFormat: 'square 1:1, with all action kept in the center of the frame',
+    videoAspectRatio: '16:9',
+    imageAspectRatio: '1:1',
+    outputWidth: 720,
+    outputHeight: 720,
+    frameClass: 'aspect-square',
+    editorFrameClass: 'aspect-square w-full max-w-[600px]',
+    playerFrameClass: 'w-full max-w-[100vh] aspect-square',
+    // Feed posts: a thin band of overlays at the top and bottom
+    captionSafeArea: { top: 0.08, bottom: 0.12, left: 0.06, right: 0.06 },
+  },
+];
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = '9:16';
+
+export const getAspectSpec = (aspectRatio?: AspectRatio): AspectRatioSpec =>
+  ASPECT_RATIOS.find(r => r.id === aspectRatio) || ASPECT_RATIOS[0];
+
+// Clips rendered in another format than the frame are shown cropped
+export const isCroppedVideo = (aspectRatio?: AspectRatio) => {
+  const spec = getAspectSpec(aspectRatio);
+  return spec.videoAspectRatio !== spec.id;
+};
@@ -0,0 +1,175 @@
+import { CaptionStyle } from '../types';
+import { SafeArea } from './aspectRatio';
+
+// Caption geometry is authored against a frame whose short side is 720px and scaled to the target canvas
+const REFERENCE_SIZE = 720;
+
+export interface CaptionPreset {
+  id: string;
+  label: string;
+  style: Omit<CaptionStyle, 'enabled' | 'presetId'>;
+}
+
+export const CAPTION_PRESETS: CaptionPreset[] = [
+  {
+    id: 'bold-pop',
+    label: 'Bold Pop',
+    style: {
+      fontFamily: 'Impact, "Arial Black", sans-serif',
+      fontSize: 54,
+      fontWeight: 900,
+      color: '#ffffff',
+      strokeColor: '#000000',
+      strokeWidth: 8,
+      position: 'center',
+      karaoke: true,
+      highlightColor: '#facc15',
+    },
+  },
+  {
+    id: 'clean',
+    label: 'Clean',
+    style: {
+      fontFamily: 'Inter, "Helvetica Neue", Arial, sans-serif',
+      fontSize: 40,
+      fontWeight: 700,
+      color: '#ffffff',
+      strokeColor: '#000000',
+      strokeWidth: 4,
+      position: 'bottom',
+      karaoke: false,
+      highlightColor: '#a855f7',
+    },
+  },
+  {
+    id: 'neon',
+    label: 'Neon',
+    style: {
+      fontFamily: '"Trebuchet MS", Arial, sans-serif',
+      fontSize: 48,
+      fontWeight: 800,
+      color: '#f0abfc',
+      strokeColor: '#4a044e',
+      strokeWidth: 6,
+      position: 'bottom',
+      karaoke: true,
+      highlightColor: '#22d3ee',
+    },
+  },
+  {
+    id: 'top-title',
+    label: 'Top Title',
+    style: {
+      fontFamily: 'Georgia, serif',
+      fontSize: 44,
+      fontWeight: 700,
+      color: '#fef3c7',
+      strokeColor: '#1c1917',
+      strokeWidth: 5,
+      position: 'top',
+      karaoke: false,
+      highlightColor: '#fbbf24',
+    },
+  },
+];
+
+export const FONT_OPTIONS = [
+  { label: 'Impact', value: 'Impact, "Arial Black", sans-serif' },
+  { label: 'Inter / Helvetica', value: 'Inter, "Helvetica Neue", Arial, sans-serif' },
+  { label: 'Trebuchet', value: '"Trebuchet MS", Arial, sans-serif' },
+  { label: 'Georgia', value: 'Georgia, serif' },
+  { label: 'Courier', value: '"Courier New", monospace' },
+];
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  enabled: false,
+  presetId: CAPTION_PRESETS[0].id,
+  ...CAPTION_PRESETS[0].style,
+};
+
+export const applyCaptionPreset = (style: CaptionStyle, presetId: string): CaptionStyle => {
+  const preset = CAPTION_PRESETS.find(p => p.id === presetId);
+  return preset ? { ...style, ...preset.style, presetId } : style;
+};
+
+interface Word {
+  text: string;
+  index: number;
+}
+
+const wrapWords = (ctx: CanvasRenderingContext2D, words: Word[], maxWidth: number): Word[][] => {
+  const lines: Word[][] = [];
+  let line: Word[] = [];
+  words.forEach(word => {
+    const candidate = [...line, word].map(w => w.text).join(' ');
+    if (line.length > 0 && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = [word];
+    } else {
+      line.push(word);
+    }
+  });
+  if (line.length > 0) lines.push(line);
+  return lines;
+};
+
+/**
+ * Draws a caption onto the canvas, inside the frame's safe area. `progress` (0-1) is how far
+ * into the clip we are, used to spread the karaoke highlight evenly across the words.
+ */
+export const drawCaption = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  progress: number,
+  style: CaptionStyle,
+  width: number,
+  height: number,
+  safeArea: SafeArea
+) => {
+  const trimmed = text.trim();
+  if (!trimmed) return;
+
+  const scale = Math.min(width, height) / REFERENCE_SIZE;
+  const fontSize = style.fontSize * scale;
+  const lineHeight = fontSize * 1.2;
+
+  ctx.save();
+  ctx.font = `${style.fontWeight} ${fontSize}px ${style.fontFamily}`;
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = style.strokeWidth * scale;
+  ctx.strokeStyle = style.strokeColor;
+
+  const words = trimmed.split(/\s+/).map((text, index) => ({ text, index }));
+  const activeIndex = Math.min(words.length - 1, Math.floor(Math.max(0, progress) * words.length));
+
+  const left = width * safeArea.left;
+  const maxWidth = width * (1 - safeArea.left - safeArea.right);
+  const lines = wrapWords(ctx, words, maxWidth);
+  const blockHeight = lines.length * lineHeight;
+
+  let top: number;
+  if (style.position === 'top') {
+    top = height * safeArea.top;
+  } else if (style.position === 'center') {
+    top = (height - blockHeight) / 2;
+  } else {
+    top = height * (1 - safeArea.bottom) - blockHeight;
+  }
+
+  const spaceWidth = ctx.measureText(' ').width;
+  lines.forEach((line, lineIdx) => {
+    const lineWidth = ctx.measureText(line.map(w => w.text).join(' ')).width;
+    let x = left + (maxWidth - lineWidth) / 2;
+    const y = top + lineIdx * lineHeight + lineHeight / 2;
+
+    line.forEach(word => {
+      if (style.strokeWidth > 0) ctx.strokeText(word.text, x, y);
+      ctx.fillStyle = style.karaoke && word.index === activeIndex ? style.highlightColor : style.color;
+      ctx.fillText(word.text, x, y);
+      x += ctx.measureText(word.text).width + spaceWidth;
+    });
+  });
+  ctx.restore();
+};
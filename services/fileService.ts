@@ -1,6 +1,57 @@
 
-import { Project, Scene } from '../types';
+import { Project, Scene, SceneTake } from '../types';
 import { logger } from './logger';
+import { buildTimeline, buildCues, toSrt, toVtt } from './subtitleService';
+import { migrateProject, isActiveTake } from './projectUtils';
+import { needsClipRender, renderSceneClip } from './renderService';
+
+export const projectFileBase = (project: Project) => project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+// Saves a generated file through a temporary link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const sceneFileBase = (scene: Scene) => `scene_${scene.scene_number.toString().padStart(2, '0')}`;
+
+const castFileBase = (index: number) => `cast_${(index + 1).toString().padStart(2, '0')}`;
+
+const extensionForType = (mimeType: string) => {
+  if (mimeType.includes('png')) return 'png';
+  if (mimeType.includes('jpeg') || mimeType.includes('jpg')) return 'jpg';
+  if (mimeType.includes('webp')) return 'webp';
+  if (mimeType.includes('webm')) return 'webm';
+  if (mimeType.includes('wav')) return 'wav';
+  return 'mp4';
+};
+
+const writeTextToFolder = async (dirHandle: any, fileName: string, content: string) => {
+  const fileHandle = await dirHandle.getFileHandle(fileName, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(content);
+  await writable.close();
+};
+
+// Writes the blob into the folder with an extension matching its type, returns the file name used
+const writeBlobToFolder = async (dirHandle: any, baseName: string, blob: Blob): Promise<string> => {
+  const fileName = `${baseName}.${extensionForType(blob.type)}`;
+  const fileHandle = await dirHandle.getFileHandle(fileName, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(blob);
+  await writable.close();
+  return fileName;
+};
+
+// Writes the content behind a blob: or data: URL into the folder, returns the file name used
+const writeUrlToFolder = async (dirHandle: any, baseName: string, url: string): Promise<string> => {
+  const response = await fetch(url);
+  return writeBlobToFolder(dirHandle, baseName, await response.blob());
+};
 
 export const saveProjectToFolder = async (project: Project) => {
   try {
@@ -15,7 +66,7 @@ export const saveProjectToFolder = async (project: Project) => {
     logger.info("Directory selected, starting export...");
 
     // 2. Save Project JSON
-    const jsonHandle = await dirHandle.getFileHandle(`${project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_data.json`, { create: true });
+    const jsonHandle = await dirHandle.getFileHandle(`${projectFileBase(project)}_data.json`, { create: true });
     const writableJson = await jsonHandle.createWritable();
     await writableJson.write(JSON.stringify(project, null, 2));
     await writableJson.close();
@@ -26,16 +77,7 @@ export const saveProjectToFolder = async (project: Project) => {
     for (const scene of project.scenes) {
       if (scene.videoUrl && scene.status === 'completed') {
         try {
-          const fileName = `scene_${scene.scene_number.toString().padStart(2, '0')}.mp4`;
-          const fileHandle = await dirHandle.getFileHandle(fileName, { create: true });
-          
-          // Fetch the blob data from the internal blob: URL
-          const response = await fetch(scene.videoUrl);
-          const blob = await response.blob();
-          
-          const writableVideo = await fileHandle.createWritable();
-          await writableVideo.write(blob);
-          await writableVideo.close();
+          const fileName = await writeUrlToFolder(dirHandle, sceneFileBase(scene), scene.videoUrl);
           savedCount++;
           logger.info(`Saved ${fileName}`);
         } catch (err) {
@@ -44,6 +86,71 @@ export const saveProjectToFolder = async (project: Project) => {
       }
     }
 
+    // 3b. Clips with the voiceover mixed in and captions burned in, next to the raw renders that a re-import reads back
+    for (const scene of project.scenes) {
+      if (!scene.videoUrl || scene.status !== 'completed' || !needsClipRender(project, scene)) continue;
+      try {
+        logger.info(`Rendering the finished clip of scene ${scene.scene_number}...`);
+        const blob = await renderSceneClip(project, scene);
+        const fileName = await writeBlobToFolder(dirHandle, `${sceneFileBase(scene)}_final`, blob);
+        logger.info(`Saved ${fileName}`);
+      } catch (err) {
+        logger.error(`Failed to save the finished clip for scene ${scene.scene_number}`, err);
+      }
+    }
+
+    // 4. Save idle loops, storyboard frames and voiceovers so the folder can be imported again
+    for (const scene of project.scenes) {
+      try {
+        if (scene.idleVideoUrl && scene.idleStatus === 'completed') {
+          await writeUrlToFolder(dirHandle, `${sceneFileBase(scene)}_idle`, scene.idleVideoUrl);
+        }
+        if (scene.previewImageUrl) {
+          await writeUrlToFolder(dirHandle, `${sceneFileBase(scene)}_preview`, scene.previewImageUrl);
+        }
+        if (scene.voiceoverUrl && scene.voiceoverStatus === 'completed') {
+          await writeUrlToFolder(dirHandle, `${sceneFileBase(scene)}_voice`, scene.voiceoverUrl);
+        }
+        // The active take is already the main scene file
+        for (const [takeIndex, take] of (scene.takes || []).entries()) {
+          if (isActiveTake(scene, take)) continue;
+          await writeUrlToFolder(dirHandle, `${sceneFileBase(scene)}_take_${takeIndex + 1}`, take.videoUrl);
+        }
+      } catch (err) {
+        logger.warn(`Failed to save extra media for scene ${scene.scene_number}`, err);
+      }
+    }
+    for (const [index, member] of project.cast.entries()) {
+      if (!member.referenceImageUrl) continue;
+      try {
+        await writeUrlToFolder(dirHandle, castFileBase(index), member.referenceImageUrl);
+      } catch (err) {
+        logger.warn(`Failed to save reference image for ${member.name}`, err);
+      }
+    }
+
+    // 5. Save subtitle sidecars timed against the actual clips
+    try {
+      const cues = buildCues(await buildTimeline(project.scenes));
+      if (cues.length > 0) {
+        await writeTextToFolder(dirHandle, `${projectFileBase(project)}.srt`, toSrt(cues));
+        await writeTextToFolder(dirHandle, `${projectFileBase(project)}.vtt`, toVtt(cues));
+        logger.info(`Saved subtitles (${cues.length} cues)`);
+      }
+    } catch (err) {
+      logger.warn("Failed to save subtitle files", err);
+    }
+
+    // 6. Save the stitched movie if one has been rendered
+    if (project.finalMovieUrl) {
+      try {
+        const fileName = await writeUrlToFolder(dirHandle, `${projectFileBase(project)}_final`, project.finalMovieUrl);
+        logger.info(`Saved ${fileName}`);
+      } catch (err) {
+        logger.error("Failed to save final movie", err);
+      }
+    }
+
     if (savedCount > 0) {
       logger.success(`Export complete! Saved ${savedCount} videos to folder.`);
       return true;
@@ -61,3 +168,169 @@ export const saveProjectToFolder = async (project: Project) => {
     throw error;
   }
 };
+
+const SCENE_STATUSES: Scene['status'][] = ['draft', 'pending', 'generating', 'completed', 'error'];
+
+// Checks parsed JSON against the Project/Scene shape, throwing a readable error listing every problem
+export const validateProject = (data: any): Project => {
+  const problems: string[] = [];
+  const expect = (ok: boolean, message: string) => { if (!ok) problems.push(message); };
+
+  if (!data || typeof data !== 'object') {
+    throw new Error("Project file is not a JSON object.");
+  }
+  expect(typeof data.name === 'string', "name must be a string");
+  expect(typeof data.topic === 'string', "topic must be a string");
+  expect(Array.isArray(data.scenes), "scenes must be an array");
+  expect(Array.isArray(data.cast), "cast must be an array");
+
+  const castIds = new Set<string>();
+  (Array.isArray(data.cast) ? data.cast : []).forEach((member: any, i: number) => {
+    const where = `cast[${i}]`;
+    if (!member || typeof member !== 'object') {
+      problems.push(`${where} must be an object`);
+      return;
+    }
+    expect(typeof member.id === 'string', `${where}.id must be a string`);
+    expect(typeof member.name === 'string', `${where}.name must be a string`);
+    expect(typeof member.appearance === 'string', `${where}.appearance must be a string`);
+    castIds.add(member.id);
+  });
+
+  (Array.isArray(data.scenes) ? data.scenes : []).forEach((scene: any, i: number) => {
+    const where = `scenes[${i}]`;
+    if (!scene || typeof scene !== 'object') {
+      problems.push(`${where} must be an object`);
+      return;
+    }
+    expect(Number.isInteger(scene.scene_number), `${where}.scene_number must be an integer`);
+    expect(typeof scene.duration_seconds === 'number', `${where}.duration_seconds must be a number`);
+    ['description', 'background', 'audio', 'dialogue'].forEach(field => {
+      expect(typeof scene[field] === 'string', `${where}.${field} must be a string`);
+    });
+    expect(scene.status === undefined || SCENE_STATUSES.includes(scene.status), `${where}.status is not a known status`);
+    expect(Array.isArray(scene.characters), `${where}.characters must be an array`);
+    expect(scene.takes === undefined || (Array.isArray(scene.takes) && scene.takes.every((t: any) => t && typeof t.id === 'string')),
+      `${where}.takes must be an array of takes`);
+    (Array.isArray(scene.characters) ? scene.characters : []).forEach((character: any, c: number) => {
+      const charWhere = `${where}.characters[${c}]`;
+      if (!character || typeof character !== 'object') {
+        problems.push(`${charWhere} must be an object`);
+        return;
+      }
+      expect(castIds.has(character.castId), `${charWhere}.castId does not match any cast member`);
+      ['pose', 'expression'].forEach(field => {
+        expect(typeof character[field] === 'string', `${charWhere}.${field} must be a string`);
+      });
+      expect(Array.isArray(character.actions) && character.actions.every((a: any) => typeof a === 'string'),
+        `${charWhere}.actions must be an array of strings`);
+    });
+  });
+
+  if (problems.length > 0) {
+    logger.error("Project file failed validation", problems);
+    throw new Error(`Invalid project file:\n${problems.slice(0, 10).join('\n')}`);
+  }
+  return data as Project;
+};
+
+// Rebuilds a project from the files written by saveProjectToFolder
+export const loadProjectFromFiles = async (files: File[]): Promise<Project> => {
+  const dataFile = files.find(f => f.name.endsWith('_data.json'));
+  if (!dataFile) {
+    throw new Error("No *_data.json project file found in the selection.");
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(await dataFile.text());
+  } catch (err) {
+    throw new Error(`${dataFile.name} is not valid JSON.`);
+  }
+  // Folders exported before the cast existed are upgraded before validation
+  const legacyCharacterImage = typeof parsed?.characterImageUrl === 'string' ? parsed.characterImageUrl : undefined;
+  const project = validateProject(migrateProject(parsed));
+
+  const filesByBase = new Map<string, File>();
+  files.forEach(f => filesByBase.set(f.name.replace(/\.[^.]+$/, ''), f));
+
+  // Old blob: URLs are dead after a reload; data: URLs are self-contained and can stay
+  const rehydrate = (baseName: string, oldUrl?: string) => {
+    const file = filesByBase.get(baseName);
+    if (file) return URL.createObjectURL(file);
+    return oldUrl?.startsWith('data:') ? oldUrl : undefined;
+  };
+
+  const scenes: Scene[] = project.scenes.map(scene => {
+    const base = sceneFileBase(scene);
+    const videoUrl = rehydrate(base);
+    const idleVideoUrl = rehydrate(`${base}_idle`);
+    const voiceoverUrl = rehydrate(`${base}_voice`);
+    const previewImageUrl = rehydrate(`${base}_preview`, scene.previewImageUrl);
+    const takes = scene.takes
+      ?.map((take, takeIndex) => ({
+        ...take,
+        videoUrl: isActiveTake(scene, take) ? videoUrl : rehydrate(`${base}_take_${takeIndex + 1}`),
+      }))
+      .filter((take): take is SceneTake => !!take.videoUrl);
+    return {
+      ...scene,
+      videoUrl,
+      takes,
+      activeTakeId: takes?.some(t => t.id === scene.activeTakeId) ? scene.activeTakeId : undefined,
+      idleVideoUrl,
+      previewImageUrl,
+      previewStatus: previewImageUrl ? 'completed' : undefined,
+      status: videoUrl ? 'completed' : (scene.status === 'error' ? 'error' : 'draft'),
+      idleStatus: idleVideoUrl ? 'completed' : (scene.idleStatus === 'error' ? 'error' : scene.idleStatus ? 'draft' : undefined),
+      voiceoverUrl,
+      voiceoverStatus: voiceoverUrl ? 'completed' : undefined,
+      // Renders in flight belong to the library project the folder was exported from
+      pendingOperation: undefined,
+      pendingIdleOperation: undefined,
+    };
+  });
+
+  const restoredVideos = scenes.filter(s => s.videoUrl).length;
+  logger.success(`Imported "${project.name}"`, { sceneCount: scenes.length, restoredVideos });
+
+  return {
+    ...project,
+    // New id so importing a folder never overwrites a project already in the library
+    id: Date.now().toString(),
+    cast: project.cast.map((member, index) => ({
+      ...member,
+      referenceImageUrl: rehydrate(castFileBase(index), member.referenceImageUrl)
+        // Legacy exports wrote the single character image as character.<ext>
+        || (index === 0 ? rehydrate('character', legacyCharacterImage) : undefined),
+    })),
+    finalMovieUrl: rehydrate(`${projectFileBase(project)}_final`),
+    scenes,
+    createdAt: typeof project.createdAt === 'number' ? project.createdAt : Date.now(),
+  };
+};
+
+export const loadProjectFromFolder = async (): Promise<Project | null> => {
+  try {
+    // @ts-ignore - TS might not fully know showDirectoryPicker yet in all environments
+    const dirHandle = await window.showDirectoryPicker();
+    logger.info("Directory selected, reading project files...");
+
+    const files: File[] = [];
+    for await (const entry of dirHandle.values()) {
+      if (entry.kind === 'file') {
+        files.push(await entry.getFile());
+      }
+    }
+    return await loadProjectFromFiles(files);
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      logger.info("Import cancelled by user.");
+      return null;
+    }
+    logger.error("Import failed", error);
+    throw error;
+  }
+};
+
+export const supportsFolderPicker = () => 'showDirectoryPicker' in window;
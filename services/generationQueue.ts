@@ -0,0 +1,229 @@
+import { GenerationJob } from '../types';
+import { logger } from './logger';
+
+type Listener = (jobs: GenerationJob[]) => void;
+
+export interface JobSpec<T> {
+  label: string;
+  model: string;
+  run: (signal: AbortSignal) => Promise<T>;
+  onStart?: () => void; // Called when the job leaves the queue (not on retries)
+  maxAttempts?: number;
+}
+
+interface QueueEntry {
+  job: GenerationJob;
+  spec: JobSpec<any>;
+  controller: AbortController;
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+const RATE_WINDOW_MS = 60000;
+// Finished, failed and cancelled jobs kept for the queue panel; older ones are dropped
+const MAX_FINISHED_JOBS = 50;
+
+// Requests started per minute, by model name prefix; the first match wins
+const DEFAULT_RATE_LIMITS: { prefix: string; perMinute: number }[] = [
+  { prefix: 'veo', perMinute: 4 },
+  { prefix: 'imagen', perMinute: 10 },
+  { prefix: 'gemini', perMinute: 15 },
+];
+
+export const isCancelledError = (err: any) => err?.name === 'AbortError';
+
+const cancelledError = () => Object.assign(new Error('Job cancelled'), { name: 'AbortError' });
+
+// Resolves after `ms`, or rejects as soon as the signal is aborted
+export const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Quota, overload and network failures are worth retrying; bad requests and safety blocks are not
+const isTransientError = (err: any) => {
+  const status = err?.status ?? err?.code;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  const message = String(err?.message || err);
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|Failed to fetch|NetworkError/i.test(message);
+};
+
+class GenerationQueue {
+  private listeners: Listener[] = [];
+  private entries: QueueEntry[] = [];
+  private startedAt = new Map<string, number[]>();
+  private concurrency = Number(localStorage.getItem("queue_concurrency")) || DEFAULT_CONCURRENCY;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  subscribe(listener: Listener) {
+    this.listeners.push(listener);
+    listener(this.getJobs());
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private emit() {
+    const jobs = this.getJobs();
+    this.listeners.forEach(l => l(jobs));
+  }
+
+  private update(entry: QueueEntry, patch: Partial<GenerationJob>) {
+    entry.job = { ...entry.job, ...patch };
+    this.emit();
+  }
+
+  getJobs() { return this.entries.map(e => e.job); }
+
+  getConcurrency() { return this.concurrency; }
+
+  setConcurrency(value: number) {
+    this.concurrency = Math.max(1, Math.round(value));
+    localStorage.setItem("queue_concurrency", String(this.concurrency));
+    this.pump();
+  }
+
+  enqueue<T>(spec: JobSpec<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const entry: QueueEntry = {
+        job: {
+          id: Math.random().toString(36).substr(2, 9),
+          label: spec.label,
+          model: spec.model,
+          status: 'pending',
+          attempts: 0,
+          maxAttempts: spec.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+          createdAt: Date.now(),
+        },
+        spec,
+        controller: new AbortController(),
+        resolve,
+        reject,
+      };
+      this.entries.push(entry);
+      logger.info(`Queued: ${spec.label}`, { model: spec.model });
+      this.emit();
+      this.pump();
+    });
+  }
+
+  cancel(id: string) {
+    const entry = this.entries.find(e => e.job.id === id);
+    if (!entry || !['pending', 'running', 'retrying'].includes(entry.job.status)) return;
+    entry.controller.abort();
+    // Pending jobs never started, so nothing else will settle them
+    if (entry.job.status === 'pending') this.finish(entry, 'cancelled', cancelledError());
+  }
+
+  cancelAll() {
+    this.entries.forEach(e => this.cancel(e.job.id));
+  }
+
+  clearFinished() {
+    this.entries = this.entries.filter(e => ['pending', 'running', 'retrying'].includes(e.job.status));
+    this.emit();
+  }
+
+  private finish(entry: QueueEntry, status: 'completed' | 'failed' | 'cancelled', result: any) {
+    entry.job = { ...entry.job, status, finishedAt: Date.now(), nextAttemptAt: undefined, error: status === 'completed' ? undefined : String(result?.message || result) };
+    const finished = this.entries.filter(e => !['pending', 'running', 'retrying'].includes(e.job.status));
+    if (finished.length > MAX_FINISHED_JOBS) {
+      const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS));
+      this.entries = this.entries.filter(e => !dropped.has(e));
+    }
+    this.emit();
+    if (status === 'completed') entry.resolve(result);
+    else entry.reject(result);
+    this.pump();
+  }
+
+  // Time until the model may start another request, 0 when a slot is free now
+  private rateLimitWait(model: string, now: number) {
+    const limit = DEFAULT_RATE_LIMITS.find(l => model.startsWith(l.prefix));
+    if (!limit) return 0;
+    const recent = (this.startedAt.get(model) || []).filter(t => now - t < RATE_WINDOW_MS);
+    this.startedAt.set(model, recent);
+    return recent.length < limit.perMinute ? 0 : recent[0] + RATE_WINDOW_MS - now;
+  }
+
+  private pump() {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+    const now = Date.now();
+    // Jobs waiting for a retry keep their slot
+    let running = this.entries.filter(e => e.job.status === 'running' || e.job.status === 'retrying').length;
+    let nextWake = Infinity;
+
+    for (const entry of this.entries) {
+      if (running >= this.concurrency) break;
+      if (entry.job.status !== 'pending') continue;
+      const wait = this.rateLimitWait(entry.job.model, now);
+      if (wait > 0) {
+        nextWake = Math.min(nextWake, wait);
+        continue;
+      }
+      running++;
+      this.start(entry);
+    }
+
+    if (nextWake !== Infinity) {
+      this.wakeTimer = setTimeout(() => this.pump(), nextWake);
+    }
+  }
+
+  private async start(entry: QueueEntry) {
+    const { spec, controller } = entry;
+    this.update(entry, { status: 'running', startedAt: Date.now() });
+    spec.onStart?.();
+
+    for (let attempt = 1; ; attempt++) {
+      this.startedAt.set(spec.model, [...(this.startedAt.get(spec.model) || []), Date.now()]);
+      this.update(entry, { attempts: attempt, status: 'running', nextAttemptAt: undefined });
+      try {
+        const result = await spec.run(controller.signal);
+        logger.success(`Job finished: ${spec.label}`);
+        return this.finish(entry, 'completed', result);
+      } catch (err: any) {
+        if (controller.signal.aborted || isCancelledError(err)) {
+          logger.warn(`Job cancelled: ${spec.label}`);
+          return this.finish(entry, 'cancelled', cancelledError());
+        }
+        if (attempt >= entry.job.maxAttempts || !isTransientError(err)) {
+          logger.error(`Job failed: ${spec.label}`, err);
+          return this.finish(entry, 'failed', err);
+        }
+        const backoff = Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS) * (0.8 + Math.random() * 0.4);
+        logger.warn(`Retrying ${spec.label} in ${Math.round(backoff / 1000)}s (attempt ${attempt + 1}/${entry.job.maxAttempts})`, err?.message);
+        this.update(entry, { status: 'retrying', nextAttemptAt: Date.now() + backoff, error: String(err?.message || err) });
+        try {
+          await delay(backoff, controller.signal);
+          // Retries count against the same per-minute limit as new jobs
+          for (let wait = this.rateLimitWait(spec.model, Date.now()); wait > 0; wait = this.rateLimitWait(spec.model, Date.now())) {
+            this.update(entry, { nextAttemptAt: Date.now() + wait });
+            await delay(wait, controller.signal);
+          }
+        } catch {
+          logger.warn(`Job cancelled: ${spec.label}`);
+          return this.finish(entry, 'cancelled', cancelledError());
+        }
+      }
+    }
+  }
+}
+
+export const generationQueue = new GenerationQueue();
@@ -0,0 +1,656 @@
+
+import { Project, Scene, SceneTake, CastMember, PendingOperation, GenerationSettings, PromptTemplateId } from "../types";
+import { logger } from "./logger";
+import {
+  getSceneCast,
+  resolveCastName,
+  castMemberName,
+  newSceneId,
+  newTakeId,
+  newBatchId,
+  MAX_CANDIDATES,
+} from "./projectUtils";
+import { getGenerationProvider, GENERATION_PROVIDERS, RawScriptScene, VideoRequest, ModelOption } from "./providers";
+import { getAspectSpec, isCroppedVideo } from "./aspectRatio";
+import { usageTracker, estimateCost } from "./usageTracker";
+import {
+  getPromptTemplate,
+  renderTemplate,
+  validateTemplate,
+  TemplateValues,
+  ScenePromptId,
+  DEFAULT_VISUAL_STYLE,
+  PROMPT_TEMPLATE_LABELS,
+} from "./promptTemplates";
+import {
+  resolveScriptConstraints,
+  describeScriptRequirements,
+  validateScriptScenes,
+  fitScriptScenes,
+} from "./scriptOptions";
+import { ParsedScript, countSceneGaps, fillEmptySceneFields, withSceneDefaults } from "./scriptImporter";
+
+// Project-level choices every generation call needs; a Project can be passed as is.
+// The id attributes the usage to the project's spending totals.
+export type GenerationOptions = Partial<Pick<
+  Project, 'id' | 'topic' | 'generationSettings' | 'aspectRatio' | 'scriptOptions' | 'promptTemplates' | 'visualStyle'
+>>;
+
+export type ResolvedGenerationSettings = Required<GenerationSettings>;
+
+// First choice the selected backend actually offers; settings saved for another backend are ignored
+const pickOption = (options: string[], fallback: string, ...choices: (string | undefined)[]) =>
+  choices.find((choice): choice is string => !!choice && options.includes(choice)) || fallback;
+
+const ids = (models: ModelOption[]) => models.map(m => m.id);
+
+// Scene overrides win over project settings, which win over the backend defaults
+export const resolveGenerationSettings = (
+  settings?: GenerationSettings,
+  overrides?: GenerationSettings
+): ResolvedGenerationSettings => {
+  const { script, image, video } = getGenerationProvider();
+  return {
+    videoModel: pickOption(ids(video.models), video.model, overrides?.videoModel, settings?.videoModel),
+    resolution: pickOption(video.resolutions, video.resolutions[0], overrides?.resolution, settings?.resolution),
+    scriptModel: pickOption(ids(script.models), script.model, settings?.scriptModel),
+    imageModel: pickOption(ids(image.models), image.model, overrides?.imageModel, settings?.imageModel),
+  };
+};
+
+export interface ScriptResult {
+  scenes: Scene[];
+  cast: CastMember[]; // The input cast plus anyone the model introduced
+  warnings?: string[]; // Requested constraints the script still misses, for the user to review
+}
+
+const describeCastList = (cast: CastMember[]) =>
+  cast.map(m => `- ${m.name}: ${m.appearance || 'appearance up to you'}`).join('\n');
+
+// Values shared by every template
+const projectValues = (options: GenerationOptions, topic = options.topic || '') => ({
+  topic,
+  format: getAspectSpec(options.aspectRatio).promptFormat,
+  style: options.visualStyle?.trim() || DEFAULT_VISUAL_STYLE,
+});
+
+// Values of the scene templates; `characters` is both a ready-made block and a section repeated per character
+const sceneValues = (scene: Scene, cast: CastMember[], options: GenerationOptions): TemplateValues => {
+  const characters = scene.characters.map(c => ({
+    'character.name': castMemberName(cast, c.castId),
+    'character.appearance': cast.find(m => m.id === c.castId)?.appearance || '',
+    'character.actions': c.actions.join(' and ') || 'present',
+    'character.expression': c.expression,
+    'character.pose': c.pose,
+  }));
+
+  return {
+    values: {
+      ...projectValues(options),
+      'scene.number': String(scene.scene_number),
+      'scene.duration': String(scene.duration_seconds),
+      'scene.description': scene.description,
+      'scene.background': scene.background,
+      'scene.dialogue': scene.dialogue || '',
+      'scene.audio': scene.audio || '',
+      'scene.idleDescription': scene.idleDescription || "Standing comfortably, breathing softly, subtle movements",
+      'scene.camera': scene.advanced?.cameraMovement?.trim() || '',
+      'characters': characters.map(c => {
+        const appearance = c['character.appearance'] ? ` (${c['character.appearance']})` : '';
+        return `${c['character.name']}${appearance} is ${c['character.actions']} with a ${c['character.expression']} expression. Pose: ${c['character.pose']}.`;
+      }).join('\n'),
+      'characters.names': getSceneCast(scene, cast).map(m => `${m.name} (${m.appearance})`).join(', '),
+      'characters.expressions': characters.map(c => `${c['character.name']}: ${c['character.expression']}`).join(', '),
+    },
+    lists: { characters },
+  };
+};
+
+// Template problems are reported when the prompt is actually sent, not on every preview render
+const warnTemplateProblems = (id: PromptTemplateId, options: GenerationOptions) => {
+  const problems = validateTemplate(id, getPromptTemplate(options.promptTemplates, id));
+  if (problems.length > 0) {
+    logger.warn(`Prompt template "${PROMPT_TEMPLATE_LABELS[id]}" has problems`, { problems });
+  }
+};
+
+// Final prompt of a scene template exactly as it is sent; also drives the editor's prompt preview
+export const buildScenePrompt = (
+  id: ScenePromptId,
+  scene: Scene,
+  cast: CastMember[],
+  options: GenerationOptions = {}
+): string => renderTemplate(getPromptTemplate(options.promptTemplates, id), sceneValues(scene, cast, options));
+
+const scriptSystemInstruction = (options: GenerationOptions) =>
+  `You are an expert storyboard artist and director for ${getAspectSpec(options.aspectRatio).promptFormat} short-form video content.`;
+
+// Map character names back to cast ids, then hydrate with local app state
+const hydrateScenes = (rawScenes: RawScriptScene[], cast: CastMember[]): ScriptResult => {
+  let resolvedCast = cast;
+  const scenes: Scene[] = rawScenes.map(s => ({
+    ...s,
+    id: newSceneId(),
+    characters: (s.characters || []).map(({ name, ...performance }) => {
+      const resolved = resolveCastName(resolvedCast, name);
+      resolvedCast = resolved.cast;
+      return { castId: resolved.castId, ...performance };
+    }),
+    status: 'draft',
+    idleDescription: "Standing comfortably, breathing softly, looking around.", // Default idle
+  }));
+
+  if (resolvedCast.length > cast.length) {
+    logger.info("Script introduced new characters", { added: resolvedCast.slice(cast.length).map(m => m.name) });
+  }
+  return { scenes, cast: resolvedCast };
+};
+
+// Compact plain-text version of a scene, used as context for the script model
+const describeSceneForContext = (scene: Scene, cast: CastMember[]) => `
+    Scene ${scene.scene_number} (${scene.duration_seconds}s): ${scene.description}
+    Characters: ${scene.characters.map(c => `${castMemberName(cast, c.castId)} - ${c.actions.join(', ')}`).join('; ') || 'none'}
+    Background: ${scene.background}
+    Dialogue: ${scene.dialogue || '(none)'}`;
+
+export const generateScript = async (
+  topic: string,
+  cast: CastMember[],
+  options: GenerationOptions = {}
+): Promise<ScriptResult> => {
+  const { script } = getGenerationProvider();
+  const { scriptModel } = resolveGenerationSettings(options.generationSettings);
+  logger.info("Starting script generation", { topic, cast: cast.map(m => m.name), model: scriptModel });
+
+  const constraints = resolveScriptConstraints(options.scriptOptions);
+  const values = {
+    ...projectValues(options, topic),
+    cast: describeCastList(cast),
+    requirements: describeScriptRequirements(options.scriptOptions || {}, constraints, 'script'),
+  };
+  warnTemplateProblems('script', options);
+  const prompt = renderTemplate(getPromptTemplate(options.promptTemplates, 'script'), { values });
+  const request = { model: scriptModel, systemInstruction: scriptSystemInstruction(options), shape: 'script' as const, constraints, topic, cast };
+
+  try {
+    const { scenes: rawScenes, usage } = await script.writeScenes({ ...request, prompt });
+    usageTracker.record({ projectId: options.id, kind: 'script', model: scriptModel, ...usage });
+    let scenes = rawScenes;
+    let problems = validateScriptScenes(scenes, constraints, 'script');
+
+    // One repair pass: the model gets its own script back with the list of what is wrong
+    if (problems.length > 0) {
+      logger.warn("Script misses the requested constraints, asking for a repair", { problems });
+      warnTemplateProblems('scriptRepair', options);
+      const repairPrompt = renderTemplate(getPromptTemplate(options.promptTemplates, 'scriptRepair'), {
+        values: { ...values, problems: problems.map(p => `- ${p}`).join('\n'), script: JSON.stringify(scenes, null, 2) },
+      });
+      try {
+        const repaired = await script.writeScenes({ ...request, prompt: repairPrompt });
+        usageTracker.record({ projectId: options.id, kind: 'script', model: scriptModel, ...repaired.usage });
+        const remaining = validateScriptScenes(repaired.scenes, constraints, 'script');
+        if (remaining.length <= problems.length) {
+          scenes = repaired.scenes;
+          problems = remaining;
+        }
+      } catch (err: any) {
+        logger.warn("Script repair failed, keeping the original script", err);
+      }
+    }
+
+    if (problems.length > 0) {
+      logger.warn("Script still misses some constraints, adjusting scene count and durations", { problems });
+    }
+    const fitted = fitScriptScenes(scenes, constraints);
+    // Extra scenes can be dropped, missing ones cannot be made up
+    const warnings = constraints.minScenes !== undefined && fitted.length < constraints.minScenes
+      ? [`The script has ${fitted.length} scene${fitted.length === 1 ? '' : 's'}, fewer than the ${constraints.minScenes} requested.`]
+      : [];
+    warnings.forEach(w => logger.warn(w));
+    logger.success("Script generated successfully");
+    return { ...hydrateScenes(fitted, cast), warnings };
+  } catch (err: any) {
+    logger.error("Script generation failed", err);
+    throw err;
+  }
+};
+
+/**
+ * Turns an imported script into project scenes. With `fillGaps` the script model completes the fields
+ * the script left empty; it never overwrites imported text, and a failure keeps the script as parsed.
+ */
+export const completeImportedScript = async (
+  parsed: ParsedScript,
+  cast: CastMember[],
+  options: GenerationOptions = {},
+  fillGaps = false
+): Promise<ScriptResult> => {
+  let scenes = parsed.scenes;
+  const gaps = countSceneGaps(scenes);
+  logger.info(`Importing ${parsed.format} script`, { scenes: scenes.length, gaps, fillGaps });
+
+  if (fillGaps && gaps > 0 && scenes.length > 0) {
+    const { script } = getGenerationProvider();
+    const { scriptModel } = resolveGenerationSettings(options.generationSettings);
+    // Same scene count as imported, so filled values can be matched back by position
+    const constraints = { ...resolveScriptConstraints(options.scriptOptions), minScenes: scenes.length, maxScenes: scenes.length };
+    warnTemplateProblems('scriptFill', options);
+    const prompt = renderTemplate(getPromptTemplate(options.promptTemplates, 'scriptFill'), {
+      values: {
+        ...projectValues(options),
+        cast: describeCastList(cast),
+        requirements: describeScriptRequirements(options.scriptOptions || {}, constraints, 'script'),
+        script: JSON.stringify(scenes, null, 2),
+      },
+    });
+
+    try {
+      const filled = await script.writeScenes({
+        model: scriptModel, prompt, systemInstruction: scriptSystemInstruction(options), shape: 'script', constraints,
+        topic: options.topic || '', cast,
+      });
+      usageTracker.record({ projectId: options.id, kind: 'script', model: scriptModel, ...filled.usage });
+      if (filled.scenes.length !== scenes.length) {
+        logger.warn(`Gap filling returned ${filled.scenes.length} scenes for ${scenes.length}, matching them by position`);
+      }
+      scenes = fillEmptySceneFields(scenes, filled.scenes);
+      logger.success(`Filled ${gaps - countSceneGaps(scenes)} of ${gaps} empty fields`);
+    } catch (err: any) {
+      logger.warn("Filling the imported script failed, keeping it as parsed", err);
+    }
+  }
+
+  return hydrateScenes(withSceneDefaults(scenes), cast);
+};
+
+export interface SceneResult {
+  scene: Scene;
+  cast: CastMember[];
+}
+
+// Writes one new scene that bridges the scenes at `afterIndex` and `afterIndex + 1`
+export const generateInsertedScene = async (
+  topic: string,
+  scenes: Scene[],
+  cast: CastMember[],
+  afterIndex: number,
+  options: GenerationOptions = {}
+): Promise<SceneResult> => {
+  const before = scenes[afterIndex];
+  const after = scenes[afterIndex + 1];
+  const { script } = getGenerationProvider();
+  const { scriptModel } = resolveGenerationSettings(options.generationSettings);
+  logger.info("Generating inserted scene", { after: before?.scene_number, before: after?.scene_number, model: scriptModel });
+
+  const placement = before && after
+    ? `It goes between these two scenes and must bridge them naturally:${describeSceneForContext(before, cast)}\n${describeSceneForContext(after, cast)}`
+    : before
+      ? `It comes right after this scene and continues the story:${describeSceneForContext(before, cast)}`
+      : after
+        ? `It comes right before this scene and sets it up:${describeSceneForContext(after, cast)}`
+        : "It is the opening scene.";
+
+  const constraints = resolveScriptConstraints(options.scriptOptions);
+  warnTemplateProblems('insertedScene', options);
+  const prompt = renderTemplate(getPromptTemplate(options.promptTemplates, 'insertedScene'), {
+    values: {
+      ...projectValues(options, topic),
+      cast: describeCastList(cast),
+      placement,
+      requirements: describeScriptRequirements(options.scriptOptions || {}, constraints, 'scene'),
+    },
+  });
+
+  try {
+    const { scenes: [rawScene], usage } = await script.writeScenes({
+      model: scriptModel, prompt, systemInstruction: scriptSystemInstruction(options), shape: 'scene', constraints, topic, cast,
+    });
+    usageTracker.record({ projectId: options.id, kind: 'script', model: scriptModel, ...usage });
+    if (!rawScene) {
+      throw new Error("No scene generated");
+    }
+
+    const problems = validateScriptScenes([rawScene], constraints, 'scene');
+    if (problems.length > 0) {
+      logger.warn("Inserted scene misses the requested constraints", { problems });
+    }
+    const { scenes: [scene], cast: resolvedCast } = hydrateScenes(fitScriptScenes([rawScene], constraints), cast);
+    logger.success("Inserted scene generated");
+    return { scene, cast: resolvedCast };
+  } catch (err: any) {
+    logger.error("Inserted scene generation failed", err);
+    throw err;
+  }
+};
+
+// The script-model view of a scene: cast names instead of ids, no media
+const describeSceneAsJson = (scene: Scene, cast: CastMember[]) => JSON.stringify({
+  scene_number: scene.scene_number,
+  duration_seconds: scene.duration_seconds,
+  description: scene.description,
+  characters: scene.characters.map(({ castId, ...performance }) => ({ name: castMemberName(cast, castId), ...performance })),
+  background: scene.background,
+  audio: scene.audio,
+  dialogue: scene.dialogue,
+}, null, 2);
+
+/**
+ * Runs a rewrite instruction on the scene at `index` with up to two scenes on each side as context.
+ * 'replace' returns a new version of that scene, 'continue' a new scene to go right after it.
+ * Nothing is applied: the caller shows the result for review.
+ */
+export const rewriteScene = async (
+  topic: string,
+  scenes: Scene[],
+  cast: CastMember[],
+  index: number,
+  instruction: string,
+  mode: 'replace' | 'continue',
+  options: GenerationOptions = {}
+): Promise<SceneResult> => {
+  const current = scenes[index];
+  const { script } = getGenerationProvider();
+  const { scriptModel } = resolveGenerationSettings(options.generationSettings);
+  logger.info(`Rewriting scene ${current.scene_number}`, { instruction, mode, model: scriptModel });
+
+  const context = [...scenes.slice(Math.max(0, index - 2), index), ...scenes.slice(index + 1, index + 3)]
+    .map(s => describeSceneForContext(s, cast))
+    .join('\n') || "(this is the only scene)";
+
+  const constraints = resolveScriptConstraints(options.scriptOptions);
+  warnTemplateProblems('sceneRewrite', options);
+  const prompt = renderTemplate(getPromptTemplate(options.promptTemplates, 'sceneRewrite'), {
+    values: {
+      ...projectValues(options, topic),
+      cast: describeCastList(cast),
+      context,
+      scene: describeSceneAsJson(current, cast),
+      instruction,
+      requirements: describeScriptRequirements(options.scriptOptions || {}, constraints, 'scene'),
+    },
+  });
+
+  try {
+    const { scenes: [rawScene], usage } = await script.writeScenes({
+      model: scriptModel, prompt, systemInstruction: scriptSystemInstruction(options), shape: 'scene', constraints, topic, cast,
+    });
+    usageTracker.record({ projectId: options.id, kind: 'script', model: scriptModel, ...usage });
+    if (!rawScene) {
+      throw new Error("No scene generated");
+    }
+
+    const { scenes: [scene], cast: resolvedCast } = hydrateScenes(fitScriptScenes([rawScene], constraints), cast);
+    logger.success(`Scene ${current.scene_number} rewrite ready for review`);
+    return { scene, cast: resolvedCast };
+  } catch (err: any) {
+    logger.error(`Rewriting scene ${current.scene_number} failed`, err);
+    throw err;
+  }
+};
+
+// Generic image generator of the selected backend
+const generateImage = async (
+  prompt: string,
+  model: string,
+  projectId: string | undefined,
+  aspectRatio: string = "1:1",
+  signal?: AbortSignal
+): Promise<string> => {
+  logger.info("Generating image...", { prompt, aspectRatio, model });
+
+  try {
+    const url = await getGenerationProvider().image.generateImage({ model, prompt, aspectRatio }, signal);
+    usageTracker.record({ projectId, kind: 'image', model, images: 1 });
+    return url;
+  } catch (err: any) {
+      logger.error("Image generation failed", err);
+      throw err;
+  }
+};
+
+// Reference sheets are always square, whatever the project format
+export const generateCharacterPreview = async (member: CastMember, options: GenerationOptions = {}): Promise<string> => {
+    warnTemplateProblems('characterPreview', options);
+    const prompt = renderTemplate(getPromptTemplate(options.promptTemplates, 'characterPreview'), {
+      values: { ...projectValues(options), 'character.name': member.name, 'character.appearance': member.appearance },
+    });
+    return generateImage(prompt, resolveGenerationSettings(options.generationSettings).imageModel, options.id, "1:1");
+};
+
+export const generateScenePreview = async (
+  scene: Scene,
+  cast: CastMember[],
+  options: GenerationOptions = {},
+  signal?: AbortSignal
+): Promise<string> => {
+    const aspect = getAspectSpec(options.aspectRatio);
+    warnTemplateProblems('scenePreview', options);
+    const prompt = buildScenePrompt('scenePreview', scene, cast, options);
+
+    const { imageModel } = resolveGenerationSettings(options.generationSettings, scene.generationOverrides);
+    return generateImage(prompt, imageModel, options.id, aspect.imageAspectRatio, signal);
+};
+
+export interface CostEstimate {
+  videos: number;
+  videoSeconds: number;
+  images: number;
+  cost: number; // USD
+}
+
+const addEstimates = (a: CostEstimate, b: CostEstimate): CostEstimate => ({
+  videos: a.videos + b.videos,
+  videoSeconds: a.videoSeconds + b.videoSeconds,
+  images: a.images + b.images,
+  cost: a.cost + b.cost,
+});
+
+const NO_COST: CostEstimate = { videos: 0, videoSeconds: 0, images: 0, cost: 0 };
+
+// What rendering `videosPerScene` videos for each scene would cost with the current backend
+export const estimateVideoCost = (
+  project: Pick<Project, 'generationSettings'>,
+  scenes: Scene[],
+  videosPerScene = 1
+): CostEstimate => {
+  const { video } = getGenerationProvider();
+  const videos = Math.min(Math.max(1, Math.round(videosPerScene)), MAX_CANDIDATES, video.maxCandidates);
+  return scenes.reduce((total, scene) => {
+    const { videoModel } = resolveGenerationSettings(project.generationSettings, scene.generationOverrides);
+    const videoSeconds = videos * video.clipSeconds;
+    return addEstimates(total, { videos, videoSeconds, images: 0, cost: estimateCost(videoModel, { videoSeconds }) });
+  }, NO_COST);
+};
+
+export const estimateImageCost = (project: Pick<Project, 'generationSettings'>, scenes: Scene[]): CostEstimate =>
+  scenes.reduce((total, scene) => {
+    const { imageModel } = resolveGenerationSettings(project.generationSettings, scene.generationOverrides);
+    return addEstimates(total, { videos: 0, videoSeconds: 0, images: 1, cost: estimateCost(imageModel, { images: 1 }) });
+  }, NO_COST);
+
+export const combineEstimates = (...estimates: CostEstimate[]) => estimates.reduce(addEstimates, NO_COST);
+
+// Optional image inputs that turn a text-to-video request into image-to-video
+export interface VideoConditioning {
+  referenceImageUrls?: string[]; // Cast reference images
+  firstFrameUrl?: string; // Storyboard frame used as the first frame of the clip
+}
+
+// An operation is collected by the backend that started it, even if the selection changed since
+const videoProviderFor = (pending: PendingOperation) =>
+  GENERATION_PROVIDERS.find(p => p.video.models.some(m => m.id === pending.model))?.video || getGenerationProvider().video;
+
+// Turns the videos of a finished operation into takes
+const collectTakes = async (pending: PendingOperation, label: string, signal?: AbortSignal): Promise<SceneTake[]> => {
+  const videoUrls = await videoProviderFor(pending).collectVideos(pending.name, label, signal);
+  if (pending.candidates && videoUrls.length < pending.candidates) {
+      logger.warn(`${label}: ${pending.candidates} candidates requested, ${videoUrls.length} returned`);
+  }
+
+  const batchId = videoUrls.length > 1 ? newBatchId() : undefined;
+  const takes: SceneTake[] = videoUrls.map(videoUrl => ({
+    id: newTakeId(),
+    videoUrl,
+    prompt: pending.prompt,
+    model: pending.model,
+    createdAt: Date.now(),
+    batchId,
+    aspectRatio: pending.aspectRatio,
+    seed: pending.seed,
+  }));
+
+  logger.success(`Video ready for playback: ${label}`);
+  return takes;
+};
+
+// Builds the request shared by clip and idle renders
+const buildVideoRequest = (
+  label: string,
+  prompt: string,
+  numberOfVideos: number,
+  { videoModel, resolution }: ResolvedGenerationSettings,
+  options: GenerationOptions,
+  conditioning?: VideoConditioning
+): VideoRequest => ({
+  model: videoModel,
+  label,
+  prompt,
+  aspectRatio: getAspectSpec(options.aspectRatio).videoAspectRatio,
+  resolution,
+  numberOfVideos,
+  firstFrameUrl: conditioning?.firstFrameUrl,
+  referenceImageUrls: conditioning?.referenceImageUrls,
+});
+
+export const generateSceneVideo = async (
+  scene: Scene, 
+  cast: CastMember[],
+  options: GenerationOptions = {},
+  conditioning?: VideoConditioning,
+  candidates = 1,
+  signal?: AbortSignal,
+  onOperationStarted?: (pending: PendingOperation) => void
+): Promise<SceneTake[]> => {
+  const { video } = getGenerationProvider();
+  const resolved = resolveGenerationSettings(options.generationSettings, scene.generationOverrides);
+  const aspect = getAspectSpec(options.aspectRatio);
+  const numberOfVideos = Math.min(Math.max(1, Math.round(candidates)), MAX_CANDIDATES, video.maxCandidates);
+  const label = `Scene ${scene.scene_number}`;
+  const { negativePrompt, seed, personGeneration } = scene.advanced || {};
+
+  // Construct a rich prompt ensuring consistency and aspect ratio
+  warnTemplateProblems('sceneVideo', options);
+  const prompt = buildScenePrompt('sceneVideo', scene, cast, options);
+
+  const request: VideoRequest = {
+    ...buildVideoRequest(label, prompt, numberOfVideos, resolved, options, conditioning),
+    negativePrompt: negativePrompt?.trim() || undefined,
+    seed,
+    personGeneration,
+  };
+
+  logger.info(`Starting video generation for ${label}`, {
+    prompt, numberOfVideos, model: resolved.videoModel, resolution: resolved.resolution,
+    aspectRatio: aspect.id, croppedFrom: isCroppedVideo(aspect.id) ? aspect.videoAspectRatio : undefined,
+    negativePrompt: request.negativePrompt, seed, personGeneration,
+  });
+
+  try {
+    const name = await video.startVideos(request, signal);
+    // Counted when the render is accepted, so renders resumed after a reload are not counted twice
+    usageTracker.record({
+      projectId: options.id, kind: 'video', model: resolved.videoModel, videoSeconds: numberOfVideos * video.clipSeconds,
+    });
+    const pending: PendingOperation = {
+      name,
+      model: resolved.videoModel,
+      prompt,
+      startedAt: Date.now(),
+      candidates: numberOfVideos,
+      aspectRatio: aspect.id,
+      seed,
+    };
+    onOperationStarted?.(pending);
+
+    return await collectTakes(pending, label, signal);
+
+  } catch (error: any) {
+    logger.error(`Error processing ${label}`, error);
+    throw error;
+  }
+};
+
+export const resumeSceneVideo = async (
+  scene: Scene,
+  pending: PendingOperation,
+  signal?: AbortSignal
+): Promise<SceneTake[]> => {
+  const label = `Scene ${scene.scene_number}`;
+  logger.info(`Resuming video generation for ${label}`, { operationName: pending.name });
+
+  try {
+    return await collectTakes(pending, label, signal);
+  } catch (error: any) {
+    logger.error(`Error resuming ${label}`, error);
+    throw error;
+  }
+};
+
+const collectIdleVideo = async (pending: PendingOperation, label: string, signal?: AbortSignal): Promise<string> => {
+  const [videoUrl] = await videoProviderFor(pending).collectVideos(pending.name, label, signal);
+  if (!videoUrl) {
+    throw new Error("No idle video returned.");
+  }
+  return videoUrl;
+};
+
+export const generateIdleVideo = async (
+  scene: Scene,
+  cast: CastMember[],
+  options: GenerationOptions = {},
+  conditioning?: VideoConditioning,
+  signal?: AbortSignal,
+  onOperationStarted?: (pending: PendingOperation) => void
+): Promise<string> => {
+  const { video } = getGenerationProvider();
+  const resolved = resolveGenerationSettings(options.generationSettings, scene.generationOverrides);
+  const aspect = getAspectSpec(options.aspectRatio);
+  const label = `Idle scene ${scene.scene_number}`;
+
+  warnTemplateProblems('idleVideo', options);
+  const idlePrompt = buildScenePrompt('idleVideo', scene, cast, options);
+
+  logger.info(`Starting Idle Animation for Scene ${scene.scene_number}`, {
+    idlePrompt, model: resolved.videoModel, resolution: resolved.resolution, aspectRatio: aspect.id,
+  });
+
+  try {
+    const name = await video.startVideos(buildVideoRequest(label, idlePrompt, 1, resolved, options, conditioning), signal);
+    usageTracker.record({ projectId: options.id, kind: 'video', model: resolved.videoModel, videoSeconds: video.clipSeconds });
+    const pending: PendingOperation = {
+      name, model: resolved.videoModel, prompt: idlePrompt, startedAt: Date.now(), aspectRatio: aspect.id,
+    };
+    onOperationStarted?.(pending);
+
+    return await collectIdleVideo(pending, label, signal);
+
+  } catch (error: any) {
+    logger.error(`Error generating idle for Scene ${scene.scene_number}`, error);
+    throw error;
+  }
+};
+
+export const resumeIdleVideo = async (
+  scene: Scene,
+  pending: PendingOperation,
+  signal?: AbortSignal
+): Promise<string> => {
+  logger.info(`Resuming idle animation for Scene ${scene.scene_number}`, { operationName: pending.name });
+
+  try {
+    return await collectIdleVideo(pending, `Idle scene ${scene.scene_number}`, signal);
+  } catch (error: any) {
+    logger.error(`Error resuming idle for Scene ${scene.scene_number}`, error);
+    throw error;
+  }
+};
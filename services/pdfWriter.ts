@@ -0,0 +1,71 @@
+// Points per inch in PDF user space
+const POINTS_PER_INCH = 72;
+
+export const A4_PORTRAIT = { widthInches: 8.27, heightInches: 11.69 };
+
+export interface PdfPage {
+  jpeg: Uint8Array; // The whole page as one JPEG
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+/**
+ * Minimal PDF 1.4 writer: every page is a single full-page JPEG (DCTDecode, embedded as is), which is
+ * all a rasterized storyboard needs and keeps the app free of a PDF dependency.
+ */
+export const buildImagePdf = (pages: PdfPage[], widthInches: number, heightInches: number): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  const pageWidth = (widthInches * POINTS_PER_INCH).toFixed(2);
+  const pageHeight = (heightInches * POINTS_PER_INCH).toFixed(2);
+  // Objects: 1 catalog, 2 page tree, then page / content / image per page
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // Binary marker so tools treat the file as binary
+
+  startObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const [pageId, contentId, imageId] = [pageIds[i], pageIds[i] + 1, pageIds[i] + 2];
+    startObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+    startObject(contentId);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    startObject(imageId);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  const objectCount = 2 + pages.length * 3;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
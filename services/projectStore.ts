@@ -0,0 +1,267 @@
+import { Project, ProjectSummary } from '../types';
+import { logger } from './logger';
+import { migrateProject } from './projectUtils';
+
+const DB_NAME = 'veo3-animator';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const MEDIA_STORE = 'media';
+
+// Blob URLs are replaced by this marker in the stored JSON, the blob itself lives in the media store
+const MEDIA_REF_PREFIX = 'idb-media:';
+
+interface StoredProject {
+  id: string;
+  updatedAt: number;
+  project: Project;
+}
+
+interface StoredMedia {
+  id: string;
+  projectId: string;
+  blob: Blob;
+}
+
+// Object URLs we created (or already persisted) mapped to their media record id,
+// so autosave does not re-write blobs that are already in the database
+const persistedUrls = new Map<string, string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Saves are chained so overlapping autosaves never race on the same media records
+let saveChain: Promise<void> = Promise.resolve();
+
+// Deleted projects, so saves still queued for them do not bring them back. Ids are never reused.
+const deletedIds = new Set<string>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          const media = db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+          media.createIndex('projectId', 'projectId', { unique: false });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const newMediaId = (projectId: string) => `${projectId}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Walks any JSON-like value and replaces every string through the mapper
+const mapStrings = async (value: any, mapper: (s: string) => Promise<string>): Promise<any> => {
+  if (typeof value === 'string') return mapper(value);
+  if (Array.isArray(value)) {
+    const out = [];
+    for (const item of value) out.push(await mapStrings(item, mapper));
+    return out;
+  }
+  if (value && typeof value === 'object') {
+    const out: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+      out[key] = await mapStrings(value[key], mapper);
+    }
+    return out;
+  }
+  return value;
+};
+
+const getMediaForProject = async (db: IDBDatabase, projectId: string): Promise<StoredMedia[]> => {
+  const tx = db.transaction(MEDIA_STORE, 'readonly');
+  return promisify(tx.objectStore(MEDIA_STORE).index('projectId').getAll(projectId));
+};
+
+// Runs the task after every write already queued, so writes to the same records never interleave
+const chained = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = saveChain.then(task);
+  saveChain = run.then(() => undefined, () => undefined);
+  return run;
+};
+
+export const saveProject = (project: Project): Promise<void> => chained(() => writeProject(project));
+
+const getRecord = async (db: IDBDatabase, id: string): Promise<StoredProject | undefined> =>
+  promisify<StoredProject | undefined>(db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).get(id));
+
+// Read-modify-write of a stored project, ordered with the other saves so results landing while the
+// project is closed are not lost. The updater returns null to leave the record as it is.
+// Stored media stays as references, so no object URLs are created for it.
+export const updateStoredProject = (id: string, updater: (project: Project) => Project | null): Promise<void> =>
+  chained(async () => {
+    const record = await getRecord(await openDb(), id);
+    const next = record && updater(migrateProject(record.project));
+    if (next) await writeProject(next);
+  });
+
+const writeProject = async (project: Project): Promise<void> => {
+  if (deletedIds.has(project.id)) return;
+  const db = await openDb();
+  const newMedia: StoredMedia[] = [];
+  const referencedIds = new Set<string>();
+  const existing = await getMediaForProject(db, project.id);
+  const existingIds = new Set(existing.map(m => m.id));
+
+  // 1. Swap blob: URLs for media references, collecting blobs we have not stored yet
+  const storedProject: Project = await mapStrings(project, async (value) => {
+    // References kept as they are by updateStoredProject
+    if (value.startsWith(MEDIA_REF_PREFIX)) {
+      referencedIds.add(value.slice(MEDIA_REF_PREFIX.length));
+      return value;
+    }
+    if (!value.startsWith('blob:')) return value;
+    let mediaId = persistedUrls.get(value);
+    // Undo can bring back a URL whose record an earlier save already dropped, so store it again
+    if (!mediaId || !mediaId.startsWith(`${project.id}-`) || !existingIds.has(mediaId)) {
+      try {
+        const blob = await (await fetch(value)).blob();
+        mediaId = newMediaId(project.id);
+        newMedia.push({ id: mediaId, projectId: project.id, blob });
+        existingIds.add(mediaId);
+        persistedUrls.set(value, mediaId);
+      } catch (err) {
+        logger.warn("Could not read media for autosave, skipping", { url: value });
+        return value;
+      }
+    }
+    referencedIds.add(mediaId);
+    return `${MEDIA_REF_PREFIX}${mediaId}`;
+  });
+
+  // 2. Drop media that is no longer referenced by the project
+  const tx = db.transaction([PROJECTS_STORE, MEDIA_STORE], 'readwrite');
+  const mediaStore = tx.objectStore(MEDIA_STORE);
+  newMedia.forEach(m => mediaStore.put(m));
+  existing.filter(m => !referencedIds.has(m.id)).forEach(m => mediaStore.delete(m.id));
+  const record: StoredProject = { id: project.id, updatedAt: Date.now(), project: storedProject };
+  tx.objectStore(PROJECTS_STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const db = await openDb();
+  const record = await getRecord(db, id);
+  if (!record) return null;
+
+  const media = await getMediaForProject(db, id);
+  const urlsById = new Map<string, string>();
+  media.forEach(m => {
+    const url = URL.createObjectURL(m.blob);
+    urlsById.set(m.id, url);
+    persistedUrls.set(url, m.id);
+  });
+
+  const project = await mapStrings(record.project, async (value) => {
+    if (!value.startsWith(MEDIA_REF_PREFIX)) return value;
+    const url = urlsById.get(value.slice(MEDIA_REF_PREFIX.length));
+    if (!url) {
+      logger.warn("Stored project references missing media", { ref: value });
+      return '';
+    }
+    return url;
+  });
+  return migrateProject(project);
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const records = await promisify<StoredProject[]>(
+    db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).getAll()
+  );
+  return records
+    .map(record => ({ updatedAt: record.updatedAt, project: migrateProject(record.project) }))
+    .map(({ project, updatedAt }) => ({
+      id: project.id,
+      name: project.name,
+      topic: project.topic,
+      sceneCount: project.scenes.length,
+      completedCount: project.scenes.filter(s => s.status === 'completed').length,
+      pendingRenders: project.scenes.filter(s => s.pendingOperation).length + project.scenes.filter(s => s.pendingIdleOperation).length,
+      // data: URLs survive storage as-is, so they can be used directly as thumbnails
+      thumbnailUrl: [...project.cast.map(m => m.referenceImageUrl), ...project.scenes.map(s => s.previewImageUrl)]
+        .find(url => url?.startsWith('data:')),
+      createdAt: project.createdAt,
+      updatedAt,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const renameProject = (id: string, name: string): Promise<void> => chained(async () => {
+  if (deletedIds.has(id)) return;
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+  const store = tx.objectStore(PROJECTS_STORE);
+  const record = await promisify<StoredProject | undefined>(store.get(id));
+  if (!record) throw new Error(`Project ${id} not found`);
+  store.put({ ...record, updatedAt: Date.now(), project: { ...record.project, name } });
+  await transactionDone(tx);
+});
+
+// Chained so the copy never sees a project whose media is only partly written
+export const duplicateProject = (id: string): Promise<string> => chained(async () => {
+  const db = await openDb();
+  const record = await getRecord(db, id);
+  if (!record) throw new Error(`Project ${id} not found`);
+
+  const copyId = Date.now().toString();
+  const media = await getMediaForProject(db, id);
+  const idMap = new Map<string, string>();
+  const copiedMedia = media.map(m => {
+    const copy = { ...m, id: newMediaId(copyId), projectId: copyId };
+    idMap.set(m.id, copy.id);
+    return copy;
+  });
+
+  const project: Project = await mapStrings(record.project, async (value) => {
+    if (!value.startsWith(MEDIA_REF_PREFIX)) return value;
+    const copied = idMap.get(value.slice(MEDIA_REF_PREFIX.length));
+    return copied ? `${MEDIA_REF_PREFIX}${copied}` : value;
+  });
+
+  const tx = db.transaction([PROJECTS_STORE, MEDIA_STORE], 'readwrite');
+  copiedMedia.forEach(m => tx.objectStore(MEDIA_STORE).put(m));
+  tx.objectStore(PROJECTS_STORE).put({
+    id: copyId,
+    updatedAt: Date.now(),
+    project: { ...project, id: copyId, name: `${project.name} (copy)`, createdAt: Date.now() },
+  });
+  await transactionDone(tx);
+  return copyId;
+});
+
+// Runs after the saves already queued, so none of them can write the project back
+export const deleteProject = (id: string): Promise<void> => {
+  deletedIds.add(id);
+  return chained(async () => {
+    const db = await openDb();
+    const media = await getMediaForProject(db, id);
+    const tx = db.transaction([PROJECTS_STORE, MEDIA_STORE], 'readwrite');
+    media.forEach(m => tx.objectStore(MEDIA_STORE).delete(m.id));
+    tx.objectStore(PROJECTS_STORE).delete(id);
+    await transactionDone(tx);
+  });
+};
@@ -0,0 +1,181 @@
+import { Project, Scene, SceneTake, CastMember, Character } from '../types';
+
+export const newCastId = () => `cast-${Math.random().toString(36).substr(2, 9)}`;
+
+export const newSceneId = () => `scene-${Math.random().toString(36).substr(2, 9)}`;
+
+export const newTakeId = () => `take-${Math.random().toString(36).substr(2, 9)}`;
+
+// scene_number always mirrors the position in the array (1-based)
+export const renumberScenes = (scenes: Scene[]): Scene[] =>
+  scenes.map((scene, index) => scene.scene_number === index + 1 ? scene : { ...scene, scene_number: index + 1 });
+
+export const createBlankScene = (): Scene => ({
+  id: newSceneId(),
+  scene_number: 0,
+  duration_seconds: 6,
+  description: '',
+  characters: [],
+  background: '',
+  audio: '',
+  dialogue: '',
+  status: 'draft',
+  idleDescription: "Standing comfortably, breathing softly, looking around.",
+});
+
+// Copies the script and keeps references to generated media; blob URLs can be shared safely.
+// Renders in flight stay with the original scene.
+export const duplicateScene = (scene: Scene): Scene => ({
+  ...scene,
+  id: newSceneId(),
+  pendingOperation: undefined,
+  pendingIdleOperation: undefined,
+  characters: scene.characters.map(c => ({ ...c, actions: [...c.actions] })),
+  status: scene.status === 'generating' || scene.status === 'pending' ? 'draft' : scene.status,
+  idleStatus: scene.idleStatus === 'generating' ? 'draft' : scene.idleStatus,
+  voiceoverStatus: scene.voiceoverStatus === 'generating' ? 'draft' : scene.voiceoverStatus,
+  previewStatus: scene.previewStatus === 'generating' || scene.previewStatus === 'pending'
+    ? (scene.previewImageUrl ? 'completed' : 'draft') : scene.previewStatus,
+});
+
+export const moveScene = (scenes: Scene[], from: number, to: number): Scene[] => {
+  const next = [...scenes];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return renumberScenes(next);
+};
+
+// Status of a scene with no local job running: a saved Veo operation is still rendering remotely,
+// anything else left mid-generation falls back to what its media says
+export const settleSceneStatus = (scene: Scene): Scene => ({
+  ...scene,
+  status: scene.pendingOperation ? 'generating'
+    : scene.status === 'generating' || scene.status === 'pending' ? (scene.videoUrl ? 'completed' : 'draft') : scene.status,
+  idleStatus: scene.pendingIdleOperation ? 'generating'
+    : scene.idleStatus === 'generating' ? (scene.idleVideoUrl ? 'completed' : 'draft') : scene.idleStatus,
+  voiceoverStatus: scene.voiceoverStatus === 'generating' ? (scene.voiceoverUrl ? 'completed' : 'draft') : scene.voiceoverStatus,
+  previewStatus: scene.previewStatus === 'generating' || scene.previewStatus === 'pending'
+    ? (scene.previewImageUrl ? 'completed' : 'draft') : scene.previewStatus,
+});
+
+// Scenes generated before takes existed only have a videoUrl; it shows up as their first take
+export const getSceneTakes = (scene: Scene): SceneTake[] =>
+  scene.takes || (scene.videoUrl
+    ? [{ id: 'take-original', videoUrl: scene.videoUrl, prompt: '', model: 'unknown', createdAt: 0 }]
+    : []);
+
+export const isActiveTake = (scene: Scene, take: SceneTake) =>
+  scene.activeTakeId ? scene.activeTakeId === take.id : scene.videoUrl === take.videoUrl;
+
+export const MAX_CANDIDATES = 4;
+
+export const newBatchId = () => `batch-${Math.random().toString(36).substr(2, 9)}`;
+
+// New takes are appended and the first one becomes active; older ones stay available in the take history
+export const addTakes = (scene: Scene, takes: SceneTake[]): Partial<Scene> => {
+  if (takes.length === 0) return {};
+  return {
+    takes: [...getSceneTakes(scene), ...takes],
+    activeTakeId: takes[0].id,
+    videoUrl: takes[0].videoUrl,
+    status: 'completed',
+    errorMsg: undefined,
+  };
+};
+
+// Candidates from the most recent multi-video request, if the scene has one
+export const getLatestBatch = (scene: Scene): SceneTake[] => {
+  const takes = getSceneTakes(scene);
+  const batchId = takes[takes.length - 1]?.batchId;
+  return batchId ? takes.filter(t => t.batchId === batchId) : [];
+};
+
+export const selectTake = (scene: Scene, takeId: string): Partial<Scene> => {
+  const take = getSceneTakes(scene).find(t => t.id === takeId);
+  if (!take) return {};
+  return { takes: getSceneTakes(scene), activeTakeId: take.id, videoUrl: take.videoUrl, status: 'completed' };
+};
+
+// The active take cannot be removed, select another one first
+export const removeTake = (scene: Scene, takeId: string): Partial<Scene> => {
+  const takes = getSceneTakes(scene);
+  const take = takes.find(t => t.id === takeId);
+  if (!take || isActiveTake(scene, take)) return {};
+  return { takes: takes.filter(t => t.id !== takeId) };
+};
+
+export const createCastMember = (name = '', appearance = ''): CastMember => ({
+  id: newCastId(),
+  name,
+  appearance,
+});
+
+export const findCastMember = (cast: CastMember[], castId: string): CastMember | undefined =>
+  cast.find(m => m.id === castId);
+
+// Cast members appearing in a scene, in the order the scene lists them
+export const getSceneCast = (scene: Scene, cast: CastMember[]): CastMember[] =>
+  scene.characters
+    .map(c => findCastMember(cast, c.castId))
+    .filter((m): m is CastMember => !!m);
+
+export const getSpeaker = (scene: Scene, cast: CastMember[]): CastMember | undefined =>
+  (scene.speakerCastId && findCastMember(cast, scene.speakerCastId)) || getSceneCast(scene, cast)[0];
+
+export const castMemberName = (cast: CastMember[], castId: string) =>
+  findCastMember(cast, castId)?.name || 'Unknown character';
+
+/**
+ * Matches a character name returned by the script model to the cast, adding a new member
+ * when the model introduced someone the user did not define.
+ */
+export const resolveCastName = (cast: CastMember[], name: string): { castId: string; cast: CastMember[] } => {
+  const normalized = name.trim().toLowerCase();
+  const existing = cast.find(m => m.name.trim().toLowerCase() === normalized);
+  if (existing) return { castId: existing.id, cast };
+  const added = createCastMember(name.trim() || 'Unnamed character');
+  return { castId: added.id, cast: [...cast, added] };
+};
+
+/**
+ * Upgrades projects saved by older versions: a single `characterDescription` /
+ * `characterImageUrl` with one `character` per scene, and scenes without an id.
+ */
+export const migrateProject = (raw: any): Project => {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.scenes)) return raw;
+
+  let cast: CastMember[] = Array.isArray(raw.cast) ? raw.cast : [];
+  const legacyScenes = raw.scenes.some((s: any) => s && s.character && !s.characters);
+
+  if (!Array.isArray(raw.cast)) {
+    const firstName = raw.scenes.find((s: any) => s?.character?.name)?.character.name || 'Main Character';
+    cast = [{
+      id: newCastId(),
+      name: firstName,
+      appearance: raw.characterDescription || '',
+      referenceImageUrl: raw.characterImageUrl,
+      voice: raw.characterVoices?.[firstName],
+    }];
+  }
+
+  const scenes = !legacyScenes ? raw.scenes : raw.scenes.map((scene: any) => {
+    if (!scene?.character || scene.characters) return scene;
+    const { character, ...rest } = scene;
+    const resolved = resolveCastName(cast, character.name || '');
+    cast = resolved.cast;
+    const migrated: Character = {
+      castId: resolved.castId,
+      pose: character.pose || '',
+      expression: character.expression || '',
+      actions: Array.isArray(character.actions) ? character.actions : [],
+    };
+    return { ...rest, characters: [migrated] };
+  });
+
+  const { characterDescription, characterImageUrl, characterVoices, ...project } = raw;
+  return {
+    ...project,
+    cast,
+    scenes: scenes.map((scene: any) => scene && !scene.id ? { ...scene, id: newSceneId() } : scene),
+  };
+};
@@ -0,0 +1,204 @@
+import { PromptTemplateId, PromptTemplates } from '../types';
+
+/**
+ * Prompt templates use `{{name}}` placeholders and mustache-style sections:
+ * `{{#characters}}...{{/characters}}` repeats its body for every character in the scene
+ * (with `{{character.*}}` available inside), and `{{#scene.camera}}...{{/scene.camera}}`
+ * only renders when that value is not empty.
+ */
+
+// Templates filled from a single scene, which the scene editor can preview
+export type ScenePromptId = Extract<PromptTemplateId, 'scenePreview' | 'sceneVideo' | 'idleVideo'>;
+
+export const DEFAULT_VISUAL_STYLE = "High quality 3D render, vibrant colors";
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, string> = {
+  script: `Create a detailed video script for a short animated video ({{format}} format) about: "{{topic}}".
+Break it down into sequential scenes.
+The cast is:
+{{cast}}
+List every cast member visible in a scene under "characters", using exactly these names.
+Ensure the characters remain consistent in name and general vibe.
+{{requirements}}
+Return ONLY JSON.`,
+  scriptRepair: `This script for a short animated video ({{format}} format) about "{{topic}}" does not meet its requirements.
+Problems:
+{{problems}}
+Requirements:
+{{requirements}}
+The cast is:
+{{cast}}
+Rewrite the script so it meets every requirement. Keep the story, the cast names and everything that already works.
+Script:
+{{script}}
+Return ONLY JSON.`,
+  scriptFill: `These scenes were imported from a script for a short animated video ({{format}} format) about: "{{topic}}".
+The cast is:
+{{cast}}
+Fill in every empty field: description, background, audio, and each character's pose, expression and actions. Use the rest of the scene and the surrounding scenes as guidance.
+Keep every field that already has content exactly as it is, and return the same scenes in the same order.
+{{requirements}}
+Scenes:
+{{script}}
+Return ONLY JSON.`,
+  insertedScene: `Write ONE new scene for a short animated video ({{format}} format) about: "{{topic}}".
+{{placement}}
+The cast is:
+{{cast}}
+List every cast member visible in the scene under "characters", using exactly these names.
+{{requirements}}
+Return ONLY JSON.`,
+  sceneRewrite: `You are editing one scene of a short animated video ({{format}} format) about: "{{topic}}".
+Surrounding scenes, for context:
+{{context}}
+The cast is:
+{{cast}}
+Current scene:
+{{scene}}
+Task: {{instruction}}
+List every cast member visible in the scene under "characters", using exactly these names.
+{{requirements}}
+Return ONLY JSON for the one scene.`,
+  characterPreview: `Character design reference sheet, {{style}}. Character: {{character.appearance}}. Neutral lighting, simple background.`,
+  scenePreview: `Storyboard frame for animated movie, {{format}}.
+Scene Description: {{scene.description}}
+Characters:
+{{characters}}
+Background: {{scene.background}}.
+Style: {{style}}, cinematic lighting.`,
+  sceneVideo: `Cinematic animated video ({{format}} aspect ratio).
+SCENE ACTION: {{scene.description}}
+CHARACTERS:
+{{characters}}
+BACKGROUND: {{scene.background}}.
+{{#scene.camera}}CAMERA: {{scene.camera}}.{{/scene.camera}}
+ATMOSPHERE: {{style}}.`,
+  idleVideo: `Cinematic video ({{format}}). SEAMLESS LOOPING IDLE ANIMATION.
+CHARACTERS: {{characters.names}}.
+ACTION: IDLE LOOP. {{scene.idleDescription}}.
+EXPRESSIONS: {{characters.expressions}}.
+BACKGROUND: {{scene.background}}.
+STYLE: {{style}}, stable camera, no cuts.`,
+};
+
+export const PROMPT_TEMPLATE_LABELS: Record<PromptTemplateId, string> = {
+  script: 'Script',
+  scriptRepair: 'Script repair',
+  scriptFill: 'Imported script gaps',
+  insertedScene: 'Inserted scene',
+  sceneRewrite: 'Scene rewrite',
+  characterPreview: 'Character sheet',
+  scenePreview: 'Storyboard frame',
+  sceneVideo: 'Scene clip',
+  idleVideo: 'Idle loop',
+};
+
+export const PLACEHOLDER_DESCRIPTIONS: Record<string, string> = {
+  'topic': 'Project topic',
+  'format': 'Aspect ratio description, e.g. "vertical 9:16"',
+  'style': 'Project visual style',
+  'cast': 'Every cast member with their appearance, one per line',
+  'placement': 'Where the new scene goes and the scenes around it',
+  'requirements': 'Length, scene count, tone, audience, language and platform instructions',
+  'problems': 'Requirements the script missed, one per line',
+  'script': 'The script to repair or complete, as JSON',
+  'context': 'The scenes before and after the edited one',
+  'scene': 'The edited scene, as JSON',
+  'instruction': 'What the rewrite should do, e.g. make it funnier',
+  'scene.number': 'Scene number',
+  'scene.duration': 'Scene length in seconds',
+  'scene.description': 'Scene description',
+  'scene.background': 'Background setting',
+  'scene.dialogue': 'Dialogue line',
+  'scene.audio': 'Audio / music notes',
+  'scene.idleDescription': 'Idle animation description',
+  'scene.camera': 'Camera movement from the Advanced section',
+  'characters': 'Every character in the scene with action, expression and pose',
+  'characters.names': 'Names and appearances of the characters in the scene',
+  'characters.expressions': 'Each character with their expression',
+  'character.name': 'Character name',
+  'character.appearance': 'Character appearance',
+  'character.actions': 'Character actions, joined with "and"',
+  'character.expression': 'Character expression',
+  'character.pose': 'Character pose',
+};
+
+const PROJECT_PLACEHOLDERS = ['topic', 'format', 'style'];
+const SCENE_PLACEHOLDERS = [
+  ...PROJECT_PLACEHOLDERS,
+  'scene.number', 'scene.duration', 'scene.description', 'scene.background', 'scene.dialogue', 'scene.audio',
+  'scene.idleDescription', 'scene.camera', 'characters', 'characters.names', 'characters.expressions',
+];
+// Only valid inside a {{#characters}} section, except in the character sheet where there is a single character
+const CHARACTER_PLACEHOLDERS = ['character.name', 'character.appearance', 'character.actions', 'character.expression', 'character.pose'];
+
+export const TEMPLATE_PLACEHOLDERS: Record<PromptTemplateId, string[]> = {
+  script: [...PROJECT_PLACEHOLDERS, 'cast', 'requirements'],
+  scriptRepair: [...PROJECT_PLACEHOLDERS, 'cast', 'requirements', 'problems', 'script'],
+  scriptFill: [...PROJECT_PLACEHOLDERS, 'cast', 'requirements', 'script'],
+  insertedScene: [...PROJECT_PLACEHOLDERS, 'cast', 'placement', 'requirements'],
+  sceneRewrite: [...PROJECT_PLACEHOLDERS, 'cast', 'context', 'scene', 'instruction', 'requirements'],
+  characterPreview: [...PROJECT_PLACEHOLDERS, 'character.name', 'character.appearance'],
+  scenePreview: SCENE_PLACEHOLDERS,
+  sceneVideo: SCENE_PLACEHOLDERS,
+  idleVideo: SCENE_PLACEHOLDERS,
+};
+
+// Placeholders a template can use, including the ones only valid inside a characters section
+export const getAvailablePlaceholders = (id: PromptTemplateId) =>
+  TEMPLATE_PLACEHOLDERS[id].includes('characters') ? [...TEMPLATE_PLACEHOLDERS[id], ...CHARACTER_PLACEHOLDERS] : TEMPLATE_PLACEHOLDERS[id];
+
+export interface TemplateValues {
+  values: Record<string, string>;
+  lists?: Record<string, Record<string, string>[]>; // Section name -> one set of values per repetition
+}
+
+// Project override when there is one, the built-in default otherwise
+export const getPromptTemplate = (templates: PromptTemplates | undefined, id: PromptTemplateId) =>
+  templates?.[id]?.trim() ? templates[id]! : DEFAULT_PROMPT_TEMPLATES[id];
+
+const TOKEN = /{{\s*([#/]?)([\w.]+)\s*}}/g;
+
+/** Problems that would make the template render differently than intended, as readable messages. */
+export const validateTemplate = (id: PromptTemplateId, template: string): string[] => {
+  const known = TEMPLATE_PLACEHOLDERS[id];
+  const problems: string[] = [];
+  const sections: string[] = [];
+
+  for (const [, kind, name] of template.matchAll(TOKEN)) {
+    if (kind === '#') {
+      if (!known.includes(name)) problems.push(`Unknown section {{#${name}}}`);
+      sections.push(name);
+    } else if (kind === '/') {
+      if (sections[sections.length - 1] !== name) {
+        problems.push(`{{/${name}}} does not close the open section`);
+      } else {
+        sections.pop();
+      }
+    } else if (!known.includes(name) && !(CHARACTER_PLACEHOLDERS.includes(name) && sections.includes('characters'))) {
+      problems.push(CHARACTER_PLACEHOLDERS.includes(name) && known.includes('characters')
+        ? `{{${name}}} is only available inside {{#characters}}...{{/characters}}`
+        : `Unknown placeholder {{${name}}}`);
+    }
+  }
+  sections.forEach(name => problems.push(`Section {{#${name}}} is never closed`));
+  return Array.from(new Set(problems));
+};
+
+// Marks where an empty section was, so a line holding nothing else can be removed entirely
+const EMPTY_SECTION = '\u0000';
+
+const fill = (template: string, { values, lists }: TemplateValues): string =>
+  template
+    .replace(/{{\s*#([\w.]+)\s*}}([\s\S]*?){{\s*\/\1\s*}}/g, (_, name: string, body: string) => {
+      const items = lists?.[name];
+      if (items) return items.map(item => fill(body, { values: { ...values, ...item }, lists })).join('') || EMPTY_SECTION;
+      return values[name]?.trim() ? fill(body, { values, lists }) : EMPTY_SECTION;
+    })
+    .replace(new RegExp(`^${EMPTY_SECTION}(\\n|$)`, 'gm'), '')
+    .replace(new RegExp(EMPTY_SECTION, 'g'), '')
+    // Unknown placeholders render empty (validateTemplate reports them) and stray section tags are dropped
+    .replace(TOKEN, (_, kind: string, name: string) => kind ? '' : values[name] ?? '');
+
+/** Fills a template; a section that renders nothing on a line of its own removes the line. */
+export const renderTemplate = (template: string, data: TemplateValues): string => fill(template, data).trim();
@@ -0,0 +1,302 @@
+import {
+  GoogleGenAI,
+  Type,
+  Schema,
+  Image,
+  VideoGenerationReferenceImage,
+  VideoGenerationReferenceType,
+  GenerateVideosOperation,
+} from "@google/genai";
+import { logger } from "../logger";
+import { delay } from "../generationQueue";
+import {
+  GenerationProvider,
+  ScriptProvider,
+  ImageProvider,
+  VideoProvider,
+  RawScriptScene,
+  VideoRequest,
+  ScriptConstraints,
+} from "./types";
+
+// Helper to get client
+export const getClient = () => {
+  // Prioritize local storage key (manual entry), fallback to env (system injection)
+  const localKey = localStorage.getItem("gemini_api_key");
+  const apiKey = localKey || process.env.API_KEY;
+
+  if (!apiKey) {
+    logger.error("API Key missing");
+    throw new Error("API Key not found. Please enter your API Key in Settings.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const characterSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    pose: { type: Type.STRING },
+    expression: { type: Type.STRING },
+    actions: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["name", "pose", "expression", "actions"],
+};
+
+const sceneSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    scene_number: { type: Type.INTEGER },
+    duration_seconds: { type: Type.INTEGER },
+    description: { type: Type.STRING },
+    characters: { type: Type.ARRAY, items: characterSchema },
+    background: { type: Type.STRING },
+    audio: { type: Type.STRING },
+    dialogue: { type: Type.STRING },
+  },
+  required: ["scene_number", "duration_seconds", "description", "characters", "background", "audio", "dialogue"],
+};
+
+// The base schema with the request's limits, so the model cannot return an out-of-range script
+const scriptSchema = (shape: 'script' | 'scene', constraints: ScriptConstraints): Schema => {
+  const scene: Schema = {
+    ...sceneSchema,
+    properties: {
+      ...sceneSchema.properties,
+      duration_seconds: { type: Type.INTEGER, minimum: constraints.minSceneSeconds, maximum: constraints.maxSceneSeconds },
+      ...(constraints.language && {
+        description: { type: Type.STRING, description: `In ${constraints.language}` },
+        dialogue: { type: Type.STRING, description: `In ${constraints.language}` },
+      }),
+    },
+  };
+  if (shape === 'scene') return scene;
+  return {
+    type: Type.ARRAY,
+    items: scene,
+    ...(constraints.minScenes !== undefined && { minItems: String(constraints.minScenes) }),
+    ...(constraints.maxScenes !== undefined && { maxItems: String(constraints.maxScenes) }),
+  };
+};
+
+export const geminiScriptProvider: ScriptProvider = {
+  model: "gemini-2.5-flash",
+  models: [
+    { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+    { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro" },
+  ],
+  writeScenes: async (request) => {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: request.prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: scriptSchema(request.shape, request.constraints),
+        systemInstruction: request.systemInstruction,
+      },
+    });
+
+    if (!response.text) {
+      logger.error("Empty response from AI for script");
+      throw new Error("No script generated");
+    }
+    const parsed = JSON.parse(response.text);
+    return {
+      scenes: (request.shape === 'script' ? parsed : [parsed]) as RawScriptScene[],
+      usage: response.usageMetadata && {
+        inputTokens: response.usageMetadata.promptTokenCount || 0,
+        // Thinking tokens are billed as output
+        outputTokens: (response.usageMetadata.candidatesTokenCount || 0) + (response.usageMetadata.thoughtsTokenCount || 0),
+      },
+    };
+  },
+};
+
+export const geminiImageProvider: ImageProvider = {
+  // gemini-2.5-flash-image is good for general tasks and speed
+  model: 'gemini-2.5-flash-image',
+  models: [
+    { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image' },
+  ],
+  generateImage: async ({ model, prompt, aspectRatio }, signal) => {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [{ text: prompt }],
+      },
+      config: {
+        // @ts-ignore - SDK types might not fully reflect imageConfig yet
+        imageConfig: {
+             aspectRatio: aspectRatio, 
+        },
+        abortSignal: signal,
+      }
+    });
+
+    // Extract image from response parts
+    let imageUrl = null;
+    if (response.candidates?.[0]?.content?.parts) {
+        for (const part of response.candidates[0].content.parts) {
+            if (part.inlineData) {
+                const base64String = part.inlineData.data;
+                imageUrl = `data:${part.inlineData.mimeType};base64,${base64String}`;
+                break;
+            }
+        }
+    }
+
+    if (!imageUrl) {
+        throw new Error("No image data returned in response. The model might have returned text only.");
+    }
+    return imageUrl;
+  },
+};
+
+// Veo accepts at most 3 asset reference images per request
+const MAX_REFERENCE_IMAGES = 3;
+
+// Veo jobs normally finish within a few minutes; past this we stop polling instead of spinning forever
+const VIDEO_POLL_TIMEOUT_MS = 10 * 60 * 1000;
+const VIDEO_POLL_INTERVAL_MS = 5000;
+
+// Converts a data: or blob: URL into the inline image format the Veo API expects
+const urlToImage = async (url: string): Promise<Image> => {
+  const blob = await (await fetch(url)).blob();
+  const buffer = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < buffer.length; i++) binary += String.fromCharCode(buffer[i]);
+  return { imageBytes: btoa(binary), mimeType: blob.type || 'image/png' };
+};
+
+// Veo accepts either a first frame or reference images, not both, so the first frame wins when requested
+const buildVideoInputs = async (request: VideoRequest) => {
+  const { label, firstFrameUrl } = request;
+  let image: Image | undefined;
+  let referenceImages: VideoGenerationReferenceImage[] | undefined;
+
+  const referenceUrls = request.referenceImageUrls || [];
+
+  if (firstFrameUrl) {
+    image = await urlToImage(firstFrameUrl);
+    if (referenceUrls.length > 0) {
+      logger.warn(`${label}: first frame and character references cannot be combined, using first frame only`);
+    }
+  } else if (referenceUrls.length > 0) {
+    if (referenceUrls.length > MAX_REFERENCE_IMAGES) {
+      logger.warn(`${label}: only the first ${MAX_REFERENCE_IMAGES} character references are sent`);
+    }
+    referenceImages = [];
+    for (const url of referenceUrls.slice(0, MAX_REFERENCE_IMAGES)) {
+      referenceImages.push({ image: await urlToImage(url), referenceType: VideoGenerationReferenceType.ASSET });
+    }
+  }
+
+  logger.info(`${label} conditioning inputs`, {
+    firstFrame: !!image,
+    characterReferences: referenceImages?.length || 0,
+    mode: image || referenceImages ? 'image-to-video' : 'text-to-video',
+  });
+  return { image, referenceImages };
+};
+
+// Downloads a generated video (the URI needs the API key) into a local blob URL
+const downloadVideo = async (videoUri: string, signal?: AbortSignal): Promise<string> => {
+  const localKey = localStorage.getItem("gemini_api_key");
+  const apiKey = localKey || process.env.API_KEY;
+  const fetchUrl = `${videoUri}&key=${apiKey}`;
+
+  const response = await fetch(fetchUrl, { signal });
+  if (!response.ok) {
+      throw new Error(`Failed to fetch video: ${response.status} ${response.statusText}`);
+  }
+  const blob = await response.blob();
+  return URL.createObjectURL(blob);
+};
+
+export const geminiVideoProvider: VideoProvider = {
+  // Using fast preview for responsiveness
+  model: 'veo-3.1-fast-generate-preview',
+  models: [
+    { id: 'veo-3.1-fast-generate-preview', label: 'Veo 3.1 Fast' },
+    { id: 'veo-3.1-generate-preview', label: 'Veo 3.1 (standard)' },
+  ],
+  resolutions: ['720p', '1080p'],
+  clipSeconds: 8, // Veo 3.1 default duration
+  maxCandidates: 4,
+  startVideos: async (request, signal) => {
+    const ai = getClient();
+    const { image, referenceImages } = await buildVideoInputs(request);
+
+    const operation = await ai.models.generateVideos({
+      model: request.model,
+      prompt: request.prompt,
+      image,
+      config: {
+        numberOfVideos: request.numberOfVideos,
+        aspectRatio: request.aspectRatio,
+        resolution: request.resolution,
+        referenceImages,
+        negativePrompt: request.negativePrompt,
+        seed: request.seed,
+        personGeneration: request.personGeneration,
+        abortSignal: signal,
+      }
+    });
+
+    if (!operation.name) {
+      throw new Error(`${request.label}: Veo did not return an operation name`);
+    }
+    logger.info(`Operation started for ${request.label}`, { operationName: operation.name });
+    return operation.name;
+  },
+  collectVideos: async (operationName, label, signal) => {
+    const ai = getClient();
+    // Rebuild the operation handle from its name so polling also works after a reload
+    let operation = new GenerateVideosOperation();
+    operation.name = operationName;
+
+    const deadline = Date.now() + VIDEO_POLL_TIMEOUT_MS;
+    while (!operation.done) {
+      if (Date.now() > deadline) {
+        throw new Error(`${label}: no result after ${VIDEO_POLL_TIMEOUT_MS / 60000} minutes, giving up`);
+      }
+      await delay(VIDEO_POLL_INTERVAL_MS, signal);
+      operation = await ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+    }
+
+    // Check for explicit API errors
+    if (operation.error) {
+        logger.error(`Generation error for ${label}`, operation.error);
+        throw new Error(`Veo API Error: ${operation.error.message || JSON.stringify(operation.error)}`);
+    }
+
+    const videoUris = (operation.response?.generatedVideos || [])
+      .map(v => v.video?.uri)
+      .filter((uri): uri is string => !!uri);
+    if (videoUris.length === 0) {
+        logger.error(`No video URI found for ${label}`, { 
+            fullResponse: operation 
+        });
+        throw new Error("Video generation completed but returned no video URI. The prompt might have triggered safety filters.");
+    }
+
+    logger.success(`Video generated for ${label}, downloading ${videoUris.length} file(s)...`);
+
+    // Fetch the actual MP4 bytes using the key and convert to blob for playback
+    const urls: string[] = [];
+    for (const uri of videoUris) {
+      urls.push(await downloadVideo(uri, signal));
+    }
+    return urls;
+  },
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  label: 'Gemini + Veo',
+  script: geminiScriptProvider,
+  image: geminiImageProvider,
+  video: geminiVideoProvider,
+};
@@ -0,0 +1,19 @@
+import { GenerationProvider } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+export * from "./types";
+
+export const GENERATION_PROVIDERS: GenerationProvider[] = [geminiProvider, mockProvider];
+
+export const getGenerationProvider = (): GenerationProvider => {
+  const selected = localStorage.getItem("generation_provider");
+  return GENERATION_PROVIDERS.find(p => p.id === selected) || geminiProvider;
+};
+
+export const setGenerationProvider = (id: string) => {
+  localStorage.setItem("generation_provider", id);
+};
+
+// The mock runs fully offline, every other backend needs the Gemini API key
+export const needsApiKey = () => getGenerationProvider().id !== mockProvider.id;
@@ -0,0 +1,230 @@
+import { delay } from "../generationQueue";
+import { GenerationProvider, ScriptProvider, ImageProvider, VideoProvider, RawScriptScene, ScriptConstraints } from "./types";
+
+// Same input, same output: the mock hashes its request to seed everything it draws
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32, small seeded PRNG
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pick = <T,>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const BEATS = [
+  { description: 'opens on {topic}, setting the mood', action: 'waving at the camera', audio: 'Upbeat intro music' },
+  { description: 'discovers something unexpected about {topic}', action: 'leaning in curiously', audio: 'Playful plucked strings' },
+  { description: 'runs into a small problem with {topic}', action: 'scratching their head', audio: 'Comedic bass hit' },
+  { description: 'finds a clever way forward with {topic}', action: 'snapping their fingers', audio: 'Rising synth' },
+  { description: 'wraps up {topic} with a smile', action: 'giving a thumbs up', audio: 'Bright outro jingle' },
+];
+const BACKGROUNDS = ['Sunny park with tall trees', 'Cozy kitchen at golden hour', 'Neon-lit city street', 'Minimal pastel studio', 'Rooftop at dusk'];
+const EXPRESSIONS = ['happy', 'curious', 'surprised', 'determined', 'cheerful'];
+
+const mockScene = (random: () => number, topic: string, names: string[], index: number, constraints: ScriptConstraints): RawScriptScene => {
+  const beat = BEATS[index % BEATS.length];
+  const lead = names[index % names.length];
+  return {
+    scene_number: index + 1,
+    duration_seconds: constraints.minSceneSeconds + Math.floor(random() * (constraints.maxSceneSeconds - constraints.minSceneSeconds + 1)),
+    description: `${lead} ${beat.description.replace('{topic}', topic)}.`,
+    characters: names.slice(0, 2).map(name => ({
+      name,
+      pose: name === lead ? 'center frame' : 'off to the side',
+      expression: pick(random, EXPRESSIONS),
+      actions: [beat.action],
+    })),
+    background: pick(random, BACKGROUNDS),
+    audio: beat.audio,
+    dialogue: `${lead}: This is part ${index + 1} about ${topic}.`,
+  };
+};
+
+export const mockScriptProvider: ScriptProvider = {
+  model: 'mock-script',
+  models: [{ id: 'mock-script', label: 'Mock script' }],
+  writeScenes: async ({ topic, cast, shape, prompt, constraints }) => {
+    const random = seededRandom(hashString(prompt));
+    const names = cast.map(m => m.name).filter(Boolean);
+    if (names.length === 0) names.push('Mock Character');
+    await delay(400);
+    if (shape === 'scene') {
+      return { scenes: [mockScene(random, topic, names, Math.floor(random() * BEATS.length), constraints)] };
+    }
+    // Four scenes unless the request asks for another count
+    const count = Math.min(constraints.maxScenes ?? 4, Math.max(constraints.minScenes ?? 4, 4));
+    return { scenes: Array.from({ length: count }, (_, i) => mockScene(random, topic, names, i, constraints)) };
+  },
+};
+
+// Small frames keep placeholder media cheap to store; higher resolutions only scale them up a bit
+const frameSize = (aspectRatio: string, longSide = 640) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) return { width: longSide * 0.75, height: longSide * 0.75 };
+  const scale = longSide / Math.max(w, h);
+  return { width: Math.round(w * scale), height: Math.round(h * scale) };
+};
+
+const paletteFor = (seed: number) => {
+  const random = seededRandom(seed);
+  const hue = Math.floor(random() * 360);
+  return [`hsl(${hue}, 60%, 45%)`, `hsl(${(hue + 60) % 360}, 55%, 25%)`];
+};
+
+const drawFrame = (ctx: CanvasRenderingContext2D, width: number, height: number, seed: number, lines: string[], progress = 0) => {
+  const [from, to] = paletteFor(seed);
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, from);
+  gradient.addColorStop(1, to);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // A moving dot so clips visibly play
+  ctx.fillStyle = 'rgba(255,255,255,0.8)';
+  ctx.beginPath();
+  ctx.arc(width * (0.1 + 0.8 * progress), height * 0.85, Math.min(width, height) * 0.04, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.font = `bold ${Math.round(width / 22)}px sans-serif`;
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, height * 0.2 + i * width / 16));
+};
+
+// Greedy word wrap to a fixed number of characters per line
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.replace(/\s+/g, ' ').trim().split(' ')) {
+    if ((current + ' ' + word).trim().length > maxChars && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = (current + ' ' + word).trim();
+    }
+  }
+  if (current) lines.push(current);
+  return lines.length > maxLines ? [...lines.slice(0, maxLines - 1), lines[maxLines - 1] + '…'] : lines;
+};
+
+export const mockImageProvider: ImageProvider = {
+  model: 'mock-image',
+  models: [{ id: 'mock-image', label: 'Mock image' }],
+  generateImage: async ({ prompt, aspectRatio }, signal) => {
+    await delay(300, signal);
+    const { width, height } = frameSize(aspectRatio);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    drawFrame(ctx, width, height, hashString(prompt), ['MOCK IMAGE', ...wrapText(prompt, 28, 8)]);
+    return canvas.toDataURL('image/png');
+  },
+};
+
+const MOCK_CLIP_SECONDS = 3;
+const MOCK_RENDER_DELAY_MS = 1500;
+const MOCK_MIME_CANDIDATES = ['video/mp4', 'video/webm;codecs=vp9', 'video/webm'];
+
+// Draws an animated gradient into a canvas and records it in real time
+const recordClip = async (width: number, height: number, seed: number, lines: string[], signal?: AbortSignal): Promise<string> => {
+  const mimeType = MOCK_MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error("This browser cannot record video, the mock provider needs a recent Chrome or Edge.");
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const stream = canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>((resolve, reject) => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = () => reject(new Error("Recording the mock clip failed."));
+  });
+  stopped.catch(() => undefined); // Only awaited once the recorder has started
+  let recording = false;
+
+  const startedAt = performance.now();
+  let drawing = true;
+  const drawLoop = () => {
+    if (!drawing) return;
+    const progress = Math.min(1, (performance.now() - startedAt) / (MOCK_CLIP_SECONDS * 1000));
+    drawFrame(ctx, width, height, seed, lines, progress);
+    requestAnimationFrame(drawLoop);
+  };
+
+  try {
+    drawLoop();
+    recorder.start(500);
+    recording = true;
+    await delay(MOCK_CLIP_SECONDS * 1000, signal);
+  } finally {
+    drawing = false;
+    try {
+      if (recorder.state !== 'inactive') recorder.stop();
+      // A recorder that never started never fires onstop
+      if (recording) await stopped;
+    } finally {
+      stream.getTracks().forEach(t => t.stop());
+    }
+  }
+
+  return URL.createObjectURL(new Blob(chunks, { type: mimeType.split(';')[0] }));
+};
+
+// The whole request is encoded in the operation name so a reload can still collect it
+const encodeOperation = (seed: number, count: number, aspectRatio: string, resolution: string) =>
+  `mock-op:${seed}:${count}:${aspectRatio.replace(':', 'x')}:${resolution}`;
+
+const decodeOperation = (name: string) => {
+  const [prefix, seed, count, aspectRatio, resolution] = name.split(':');
+  if (prefix !== 'mock-op' || !seed || !count || !aspectRatio) {
+    throw new Error(`Unknown mock operation: ${name}`);
+  }
+  return { seed: Number(seed), count: Number(count), aspectRatio: aspectRatio.replace('x', ':'), resolution };
+};
+
+export const mockVideoProvider: VideoProvider = {
+  model: 'mock-video',
+  models: [{ id: 'mock-video', label: 'Mock video' }],
+  resolutions: ['720p', '1080p'],
+  clipSeconds: MOCK_CLIP_SECONDS,
+  maxCandidates: 4,
+  startVideos: async ({ prompt, seed, numberOfVideos, aspectRatio, resolution }, signal) => {
+    await delay(200, signal);
+    return encodeOperation((hashString(prompt) + (seed || 0)) >>> 0, numberOfVideos, aspectRatio, resolution);
+  },
+  collectVideos: async (operationName, label, signal) => {
+    const { seed, count, aspectRatio, resolution } = decodeOperation(operationName);
+    await delay(MOCK_RENDER_DELAY_MS, signal);
+    const { width, height } = frameSize(aspectRatio, resolution === '1080p' ? 960 : 640);
+    const urls: string[] = [];
+    for (let i = 0; i < count; i++) {
+      urls.push(await recordClip(width, height, seed + i, ['MOCK CLIP', label, `Take ${i + 1} of ${count}`], signal));
+    }
+    return urls;
+  },
+};
+
+// Offline stand-in for every backend, so the whole workflow can be tried without network or an API key
+export const mockProvider: GenerationProvider = {
+  id: 'mock',
+  label: 'Offline mock (placeholders)',
+  script: mockScriptProvider,
+  image: mockImageProvider,
+  video: mockVideoProvider,
+};
@@ -0,0 +1,95 @@
+import { CastMember, Scene, PersonGeneration } from '../../types';
+
+// Shape of a scene as returned by a script provider, before names are mapped to cast ids
+export interface RawScriptScene extends Omit<Scene, 'id' | 'status' | 'characters'> {
+  characters: { name: string; pose: string; expression: string; actions: string[] }[];
+}
+
+export interface ModelOption {
+  id: string;
+  label: string;
+}
+
+// Limits the response schema can enforce; the prompt states them as well
+export interface ScriptConstraints {
+  minScenes?: number;
+  maxScenes?: number;
+  minSceneSeconds: number;
+  maxSceneSeconds: number;
+  targetDurationSeconds?: number;
+  language?: string;
+}
+
+export interface ScriptRequest {
+  model: string;
+  prompt: string;
+  systemInstruction: string;
+  shape: 'script' | 'scene'; // A list of scenes, or exactly one scene
+  constraints: ScriptConstraints;
+  // Plain context for providers that do not read the prompt
+  topic: string;
+  cast: CastMember[];
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ScriptResponse {
+  scenes: RawScriptScene[];
+  usage?: TokenUsage; // When the backend reports it
+}
+
+export interface ScriptProvider {
+  model: string; // Default model
+  models: ModelOption[];
+  writeScenes: (request: ScriptRequest) => Promise<ScriptResponse>;
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  aspectRatio: string;
+}
+
+export interface ImageProvider {
+  model: string; // Default model
+  models: ModelOption[];
+  generateImage: (request: ImageRequest, signal?: AbortSignal) => Promise<string>; // data: or blob: URL
+}
+
+export interface VideoRequest {
+  model: string;
+  label: string; // For logs, e.g. "Scene 3"
+  prompt: string;
+  aspectRatio: string;
+  resolution: string;
+  numberOfVideos: number;
+  firstFrameUrl?: string; // Storyboard frame used as the first frame of the clip
+  referenceImageUrls?: string[]; // Cast reference images
+  negativePrompt?: string;
+  seed?: number;
+  personGeneration?: PersonGeneration;
+}
+
+export interface VideoProvider {
+  model: string; // Default model
+  models: ModelOption[];
+  resolutions: string[]; // First one is the default
+  clipSeconds: number; // Length of every generated video
+  maxCandidates: number;
+  // Starts a render; the returned operation name is all collectVideos needs, also after a reload
+  startVideos: (request: VideoRequest, signal?: AbortSignal) => Promise<string>;
+  // Waits for the operation to finish and returns a playable URL per generated video
+  collectVideos: (operationName: string, label: string, signal?: AbortSignal) => Promise<string[]>;
+}
+
+// A backend the whole generation workflow can run on
+export interface GenerationProvider {
+  id: string;
+  label: string;
+  script: ScriptProvider;
+  image: ImageProvider;
+  video: VideoProvider;
+}
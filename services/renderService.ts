@@ -0,0 +1,213 @@
+import { Project, Scene, CaptionStyle } from '../types';
+import { logger } from './logger';
+import { drawCaption } from './captionRenderer';
+import { getAspectSpec } from './aspectRatio';
+
+const OUTPUT_FPS = 30;
+
+// MP4 first (Chrome 126+ can record H.264 directly), WebM as the fallback
+const MIME_CANDIDATES = [
+  'video/mp4;codecs=avc1.42E01E,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm',
+];
+
+export const getRenderableScenes = (scenes: Scene[]): Scene[] =>
+  scenes
+    .filter(s => s.videoUrl && s.status === 'completed')
+    .sort((a, b) => a.scene_number - b.scene_number);
+
+// False when this browser records WebM only, so callers can tell the user before a long render
+export const canRecordMp4 = () => MIME_CANDIDATES.some(type => type.startsWith('video/mp4') && MediaRecorder.isTypeSupported(type));
+
+const pickMimeType = (): string => {
+  const supported = MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!supported) {
+    throw new Error("This browser cannot record video. Please use a recent Chrome or Edge.");
+  }
+  if (!supported.startsWith('video/mp4')) {
+    logger.warn("MP4 recording not supported by this browser, rendering WebM instead", { mimeType: supported });
+  }
+  return supported;
+};
+
+// Draws the frame scaled to cover the canvas, cropping whatever overflows (e.g. 16:9 clips of a 1:1 project)
+const drawCover = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+  const { videoWidth, videoHeight } = video;
+  const { width, height } = ctx.canvas;
+  if (!videoWidth || !videoHeight) return;
+  const scale = Math.max(width / videoWidth, height / videoHeight);
+  const w = videoWidth * scale;
+  const h = videoHeight * scale;
+  ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+const waitForEvent = (target: HTMLMediaElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error(`Media failed to load (${target.error?.message || 'unknown error'})`)); };
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+/**
+ * Plays the scenes in order into a canvas and records the result, with each scene's voiceover mixed
+ * on top of the clip's own audio, so recording takes roughly as long as the footage itself.
+ */
+const recordScenes = async (
+  scenes: Scene[],
+  project: Project,
+  captionStyle: CaptionStyle | null,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  const mimeType = pickMimeType();
+  // 720p in the project's format
+  const { outputWidth, outputHeight, captionSafeArea } = getAspectSpec(project.aspectRatio);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = outputWidth;
+  canvas.height = outputHeight;
+  const ctx = canvas.getContext('2d')!;
+
+  const video = document.createElement('video');
+  video.playsInline = true;
+  video.crossOrigin = 'anonymous';
+
+  const voice = document.createElement('audio');
+
+  // Route clip and voiceover audio into the recording instead of the speakers
+  const audioCtx = new AudioContext();
+  const audioDest = audioCtx.createMediaStreamDestination();
+  audioCtx.createMediaElementSource(video).connect(audioDest);
+  audioCtx.createMediaElementSource(voice).connect(audioDest);
+
+  const stream = canvas.captureStream(OUTPUT_FPS);
+  audioDest.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  let currentScene: Scene | null = null;
+
+  const drawFrame = () => {
+    drawCover(ctx, video);
+    if (captionStyle && currentScene?.dialogue) {
+      const progress = video.duration ? video.currentTime / video.duration : 0;
+      drawCaption(ctx, currentScene.dialogue, progress, captionStyle, outputWidth, outputHeight, captionSafeArea);
+    }
+  };
+
+  // Frames are drawn as the video presents them rather than on animation frames, which stop while
+  // the tab is hidden and would freeze the picture under the still running audio
+  let drawing = true;
+  let drawTimer: ReturnType<typeof setInterval> | undefined;
+  const startDrawing = () => {
+    if (!('requestVideoFrameCallback' in video)) {
+      drawTimer = setInterval(drawFrame, 1000 / OUTPUT_FPS);
+      return;
+    }
+    const onVideoFrame = () => {
+      if (!drawing) return;
+      drawFrame();
+      video.requestVideoFrameCallback(onVideoFrame);
+    };
+    video.requestVideoFrameCallback(onVideoFrame);
+  };
+
+  try {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, outputWidth, outputHeight);
+    await audioCtx.resume();
+    recorder.start(1000);
+    startDrawing();
+
+    for (let i = 0; i < scenes.length; i++) {
+      const scene = scenes[i];
+      logger.info(`Rendering scene ${scene.scene_number} (${i + 1}/${scenes.length})`);
+
+      video.src = scene.videoUrl!;
+      await waitForEvent(video, 'loadeddata');
+      currentScene = scene;
+
+      const onTime = () => {
+        const sceneFraction = video.duration ? video.currentTime / video.duration : 0;
+        onProgress?.((i + sceneFraction) / scenes.length);
+      };
+      video.addEventListener('timeupdate', onTime);
+      if (scene.voiceoverUrl) {
+        voice.src = scene.voiceoverUrl;
+        await waitForEvent(voice, 'loadeddata');
+      }
+      await video.play();
+      if (scene.voiceoverUrl) await voice.play();
+      await waitForEvent(video, 'ended');
+      voice.pause();
+      voice.removeAttribute('src');
+      video.removeEventListener('timeupdate', onTime);
+    }
+
+    recorder.stop();
+    await stopped;
+  } catch (err) {
+    if (recorder.state !== 'inactive') recorder.stop();
+    throw err;
+  } finally {
+    drawing = false;
+    clearInterval(drawTimer);
+    video.removeAttribute('src');
+    voice.removeAttribute('src');
+    stream.getTracks().forEach(t => t.stop());
+    audioCtx.close();
+  }
+
+  onProgress?.(1);
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
+
+// Stitches every completed scene into one movie
+export const renderFinalMovie = async (
+  project: Project,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  const scenes = getRenderableScenes(project.scenes);
+  if (scenes.length === 0) {
+    throw new Error("No completed scenes to render.");
+  }
+
+  logger.info(`Rendering final movie from ${scenes.length} scenes`, {
+    aspectRatio: getAspectSpec(project.aspectRatio).id,
+    captions: project.captionStyle?.enabled ? project.captionStyle.presetId : 'off',
+    voiceovers: scenes.filter(s => s.voiceoverUrl).length,
+  });
+
+  try {
+    const captionStyle = project.captionStyle?.enabled ? project.captionStyle : null;
+    const blob = await recordScenes(scenes, project, captionStyle, onProgress);
+    logger.success("Final movie rendered", { sizeMB: (blob.size / 1024 / 1024).toFixed(1) });
+    return blob;
+  } catch (err) {
+    logger.error("Final movie render failed", err);
+    throw err;
+  }
+};
+
+// Whether a scene's exported clip differs from the raw render: it has a voiceover or captions to burn in
+export const needsClipRender = (project: Project, scene: Scene) =>
+  (!!scene.voiceoverUrl && scene.voiceoverStatus === 'completed') || (!!project.captionStyle?.enabled && !!scene.dialogue.trim());
+
+// One completed scene with its voiceover mixed in and captions burned in, for the per-scene clip export
+export const renderSceneClip = async (project: Project, scene: Scene): Promise<Blob> => {
+  try {
+    return await recordScenes([scene], project, project.captionStyle?.enabled ? project.captionStyle : null);
+  } catch (err) {
+    logger.error(`Rendering the clip of scene ${scene.scene_number} failed`, err);
+    throw err;
+  }
+};
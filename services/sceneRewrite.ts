@@ -0,0 +1,80 @@
+import { CastMember, Scene } from "../types";
+import { castMemberName } from "./projectUtils";
+
+export type SceneRewriteAction = 'rewrite' | 'funnier' | 'shorter' | 'continue' | 'fillMissing' | 'custom';
+
+export interface SceneRewriteSpec {
+  id: SceneRewriteAction;
+  label: string;
+  instruction: string; // {{instruction}} of the scene rewrite template
+}
+
+// Preset actions; 'custom' takes the user's own instruction
+export const SCENE_REWRITE_ACTIONS: SceneRewriteSpec[] = [
+  {
+    id: 'rewrite',
+    label: 'Rewrite',
+    instruction: 'Rewrite this scene with fresh wording and staging. Keep its role in the story and how it connects to the scenes around it.',
+  },
+  {
+    id: 'funnier',
+    label: 'Funnier',
+    instruction: 'Make this scene funnier with a visual gag or a punchier line of dialogue. Keep what happens in the story the same.',
+  },
+  {
+    id: 'shorter',
+    label: 'Shorter',
+    instruction: 'Make this scene shorter and tighter: fewer actions, a shorter dialogue line and a shorter duration.',
+  },
+  {
+    id: 'continue',
+    label: 'Continue from here',
+    instruction: 'Write the NEW scene that comes right after this one and continues the story naturally.',
+  },
+  {
+    id: 'fillMissing',
+    label: 'Fill missing fields',
+    instruction: 'Fill in every empty field of this scene so it fits the story. Keep every field that already has content exactly as it is.',
+  },
+];
+
+// The parts of a scene the script model writes; media, takes and settings are never touched by a rewrite
+export type SceneScriptField = 'description' | 'duration_seconds' | 'characters' | 'background' | 'audio' | 'dialogue';
+
+export const SCENE_SCRIPT_FIELDS: { id: SceneScriptField; label: string }[] = [
+  { id: 'description', label: 'Description' },
+  { id: 'duration_seconds', label: 'Duration' },
+  { id: 'characters', label: 'Characters' },
+  { id: 'background', label: 'Background' },
+  { id: 'audio', label: 'Audio' },
+  { id: 'dialogue', label: 'Dialogue' },
+];
+
+// A rewrite waiting for the user to accept or discard it
+export interface SceneRewriteProposal {
+  sceneId: string; // Scene the action ran on
+  action: SceneRewriteAction;
+  scene: Scene;
+  cast: CastMember[]; // Project cast plus anyone the rewrite introduced
+}
+
+// Plain-text form of a field, for comparing and diffing
+export const sceneFieldText = (scene: Scene, field: SceneScriptField, cast: CastMember[]): string => {
+  if (field === 'characters') {
+    return scene.characters
+      .map(c => `${castMemberName(cast, c.castId)}: ${c.actions.join(', ') || 'present'}; ${c.expression}; ${c.pose}`)
+      .join('\n');
+  }
+  if (field === 'duration_seconds') return scene.duration_seconds ? `${scene.duration_seconds}s` : '';
+  return scene[field] || '';
+};
+
+// Fields the proposal changes; "fill missing fields" only ever offers the ones that were empty
+export const changedSceneFields = (current: Scene, proposed: Scene, cast: CastMember[], action: SceneRewriteAction) =>
+  SCENE_SCRIPT_FIELDS
+    .map(f => f.id)
+    .filter(field => sceneFieldText(current, field, cast) !== sceneFieldText(proposed, field, cast))
+    .filter(field => action !== 'fillMissing' || !sceneFieldText(current, field, cast).trim());
+
+export const applySceneFields = (scene: Scene, proposed: Scene, fields: SceneScriptField[]): Scene =>
+  fields.reduce<Scene>((result, field) => ({ ...result, [field]: proposed[field] }), scene);
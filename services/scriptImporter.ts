@@ -0,0 +1,307 @@
+import { CastMember } from "../types";
+import { RawScriptScene } from "./providers";
+import { MIN_SCENE_SECONDS, MAX_SCENE_SECONDS } from "./scriptOptions";
+
+export type ScriptFormat = 'text' | 'markdown' | 'fountain';
+
+export const SCRIPT_FORMATS: { id: ScriptFormat; label: string; extensions: string[] }[] = [
+  { id: 'text', label: 'Plain text beats', extensions: ['.txt'] },
+  { id: 'markdown', label: 'Markdown', extensions: ['.md', '.markdown'] },
+  { id: 'fountain', label: 'Fountain screenplay', extensions: ['.fountain', '.spmd'] },
+];
+
+export interface ParsedScript {
+  format: ScriptFormat;
+  title?: string; // Fountain title page or the Markdown document title
+  scenes: RawScriptScene[];
+}
+
+// Speaking rate used to estimate how long a scene's dialogue takes
+const WORDS_PER_SECOND = 2.5;
+
+const SCENE_HEADING = /^(\.(?!\.)|(INT\.?\/EXT|INT|EXT|EST|I\/E)[.\s])/i;
+const FIELD_LINE = /^(setting|background|location|audio|music|sound|sfx)\s*:\s*(.*)$/i;
+const NAMED_LINE = /^\**([A-Za-z][\w'. -]{0,30}?)\**\s*(\(([^)]*)\))?\s*:\s*(.+)$/;
+
+export const detectScriptFormat = (text: string, fileName = ''): ScriptFormat => {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+  const byExtension = SCRIPT_FORMATS.find(f => f.extensions.includes(extension));
+  if (byExtension) return byExtension.id;
+
+  const lines = text.split(/\r?\n/).map(l => l.trim());
+  if (lines.some(l => SCENE_HEADING.test(l) && l === l.toUpperCase())) return 'fountain';
+  if (lines.some(l => /^#{1,6}\s/.test(l) || /^([-*+]|\d+\.)\s/.test(l))) return 'markdown';
+  return 'text';
+};
+
+// Screenplay names are written in capitals; the cast uses regular capitalization
+const displayName = (name: string) => {
+  const clean = name.replace(/\s*\^$/, '').trim();
+  return clean === clean.toUpperCase()
+    ? clean.toLowerCase().replace(/(^|[\s'-])\p{L}/gu, c => c.toUpperCase())
+    : clean;
+};
+
+interface DialogueLine {
+  speaker: string;
+  text: string;
+  parenthetical?: string;
+}
+
+// Everything collected for one scene before it is turned into a RawScriptScene
+interface SceneDraft {
+  background: string[];
+  description: string[];
+  audio: string[];
+  dialogue: DialogueLine[];
+}
+
+const newDraft = (): SceneDraft => ({ background: [], description: [], audio: [], dialogue: [] });
+
+const isDraftEmpty = (draft: SceneDraft) =>
+  !draft.background.length && !draft.description.length && !draft.audio.length && !draft.dialogue.length;
+
+// Key/value and "Name: line" forms shared by the plain text and Markdown readers
+const addDraftLine = (draft: SceneDraft, line: string, cast: CastMember[]) => {
+  const field = line.match(FIELD_LINE);
+  if (field) {
+    const key = field[1].toLowerCase();
+    (['setting', 'background', 'location'].includes(key) ? draft.background : draft.audio).push(field[2].trim());
+    return;
+  }
+
+  const named = line.match(NAMED_LINE);
+  if (named) {
+    const [, name, , parenthetical, text] = named;
+    const isCast = cast.some(m => m.name.trim().toLowerCase() === name.trim().toLowerCase());
+    const isQuoted = /^["“].*["”]$/.test(text.trim());
+    if (isCast || isQuoted || (name === name.toUpperCase() && /[A-Z]/.test(name))) {
+      draft.dialogue.push({ speaker: displayName(name), text: text.trim().replace(/^["“]|["”]$/g, ''), parenthetical });
+      return;
+    }
+  }
+  draft.description.push(line);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// `knownNames` are the cast plus everyone who speaks somewhere in the script
+const draftToScene = (draft: SceneDraft, index: number, knownNames: string[]): RawScriptScene => {
+  const description = draft.description.join(' ').replace(/\s+/g, ' ').trim();
+  const dialogueText = draft.dialogue.map(d => d.text).join(' ');
+
+  // Speakers first, then known characters the action lines mention
+  const names: string[] = [];
+  const addName = (name: string) => {
+    if (!names.some(n => n.toLowerCase() === name.toLowerCase())) names.push(name);
+  };
+  draft.dialogue.forEach(d => addName(d.speaker));
+  knownNames.forEach(name => {
+    if (new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(description)) addName(name);
+  });
+
+  const characters = names.map(name => {
+    const mentions = draft.description.filter(line => line.toLowerCase().includes(name.toLowerCase()));
+    const parenthetical = draft.dialogue.find(d => d.speaker === name && d.parenthetical)?.parenthetical;
+    return { name, pose: '', expression: parenthetical || '', actions: mentions.slice(0, 2) };
+  });
+
+  const words = dialogueText.split(/\s+/).filter(Boolean).length;
+  return {
+    scene_number: index + 1,
+    duration_seconds: Math.min(MAX_SCENE_SECONDS, Math.max(MIN_SCENE_SECONDS, Math.ceil(words / WORDS_PER_SECOND) + 2)),
+    description,
+    characters,
+    background: draft.background.join(', '),
+    audio: draft.audio.join(', '),
+    dialogue: draft.dialogue.map(d => `${d.speaker}: ${d.text}`).join('\n'),
+  };
+};
+
+const finish = (drafts: SceneDraft[], cast: CastMember[]) => {
+  const knownNames = [
+    ...cast.map(m => m.name.trim()).filter(Boolean),
+    ...drafts.flatMap(d => d.dialogue.map(line => line.speaker)),
+  ];
+  return drafts.filter(d => !isDraftEmpty(d)).map((d, i) => draftToScene(d, i, knownNames));
+};
+
+// "INT. KITCHEN - NIGHT" becomes "Interior, kitchen - night"
+const headingToBackground = (heading: string) => {
+  const forced = heading.startsWith('.');
+  const text = forced ? heading.slice(1) : heading;
+  const match = text.match(/^(INT\.?\/EXT|INT|EXT|EST|I\/E)[.\s]\s*(.*)$/i);
+  if (!match) return text.replace(/\s*#[^#]+#$/, '').trim();
+  const place = match[2].replace(/\s*#[^#]+#$/, '').trim().toLowerCase();
+  const kind = match[1].toUpperCase().startsWith('EXT') ? 'Exterior' : match[1].toUpperCase() === 'INT' ? 'Interior' : 'Interior/exterior';
+  return `${kind}, ${place}`;
+};
+
+const parseFountain = (text: string, cast: CastMember[]): ParsedScript => {
+  const clean = text
+    .replace(/\/\*[\s\S]*?\*\//g, '') // Boneyard
+    .replace(/\[\[[\s\S]*?\]\]/g, ''); // Notes
+  let lines = clean.split(/\r?\n/);
+
+  // Title page: "Key: value" lines up to the first blank line
+  let title: string | undefined;
+  if (/^\s*[\w ]+:/.test(lines[0] || '') && !SCENE_HEADING.test(lines[0].trim())) {
+    const end = lines.findIndex(l => !l.trim());
+    const titlePage = lines.slice(0, end === -1 ? lines.length : end);
+    title = titlePage.find(l => /^\s*title\s*:/i.test(l))?.replace(/^\s*title\s*:/i, '').replace(/[_*]/g, '').trim() || undefined;
+    lines = end === -1 ? [] : lines.slice(end + 1);
+  }
+
+  const drafts: SceneDraft[] = [newDraft()];
+  const current = () => drafts[drafts.length - 1];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || /^#/.test(line) || /^={3,}$/.test(line)) continue; // Sections and page breaks
+
+    if (SCENE_HEADING.test(line)) {
+      drafts.push(newDraft());
+      current().background.push(headingToBackground(line));
+      continue;
+    }
+    if (line.startsWith('=')) { // Synopsis
+      current().description.unshift(line.slice(1).trim());
+      continue;
+    }
+    if ((line === line.toUpperCase() && line.endsWith('TO:')) || (line.startsWith('>') && !line.endsWith('<'))) {
+      continue; // Transitions
+    }
+
+    // Character cue: capitals (or forced with @) after a blank line, followed by dialogue
+    const prevBlank = i === 0 || !lines[i - 1].trim();
+    const next = lines[i + 1]?.trim();
+    const isCue = line.startsWith('@') || (/[A-Z]/.test(line) && line === line.toUpperCase() && !line.startsWith('!'));
+    if (prevBlank && next && isCue) {
+      const speaker = displayName(line.replace(/^@/, '').replace(/\(.*?\)/g, ''));
+      let parenthetical: string | undefined;
+      const spoken: string[] = [];
+      while (lines[i + 1]?.trim()) {
+        const part = lines[++i].trim();
+        const paren = part.match(/^\((.*)\)$/);
+        if (paren) parenthetical = parenthetical || paren[1];
+        else spoken.push(part);
+      }
+      current().dialogue.push({ speaker, text: spoken.join(' '), parenthetical });
+      continue;
+    }
+
+    current().description.push(line.replace(/^!/, '').replace(/^>\s*(.*?)\s*<$/, '$1'));
+  }
+
+  return { format: 'fountain', title, scenes: finish(drafts, cast) };
+};
+
+const parseMarkdown = (text: string, cast: CastMember[]): ParsedScript => {
+  const lines = text.split(/\r?\n/);
+  const headings = lines.filter(l => /^#{1,6}\s/.test(l.trim()));
+  // A single top-level heading above sub-headings is the document title, not a scene
+  const h1s = headings.filter(l => /^#\s/.test(l.trim()));
+  const title = h1s.length === 1 && headings.length > 1 ? h1s[0].trim().replace(/^#\s+/, '') : undefined;
+  const splitOnHeadings = headings.length > (title ? 1 : 0);
+
+  const drafts: SceneDraft[] = [newDraft()];
+  const current = () => drafts[drafts.length - 1];
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line || /^(-{3,}|\*{3,}|_{3,})$/.test(line)) continue;
+
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      if (heading[1] === title) continue;
+      drafts.push(newDraft());
+      // "Scene 2: The kitchen" keeps only the place
+      const place = heading[1].replace(/^scene\s*\d+\s*[:.\-–]?\s*/i, '').trim();
+      if (place) current().background.push(place);
+      continue;
+    }
+
+    const item = raw.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+    // Without headings, every top-level list item is a scene and nested items belong to it
+    if (item && !splitOnHeadings && !item[1]) drafts.push(newDraft());
+    const content = (item ? item[3] : line).replace(/^>\s*/, '').replace(/\*\*(.*?)\*\*/g, '$1').replace(/__(.*?)__/g, '$1').trim();
+    if (content) addDraftLine(current(), content, cast);
+  }
+
+  return { format: 'markdown', title, scenes: finish(drafts, cast) };
+};
+
+// Blank lines separate beats; "1." or "Scene 3:" at the start of a line also starts a new one
+const parsePlainText = (text: string, cast: CastMember[]): ParsedScript => {
+  const drafts: SceneDraft[] = [newDraft()];
+  const current = () => drafts[drafts.length - 1];
+  let previousBlank = true;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) {
+      previousBlank = true;
+      continue;
+    }
+    const numbered = line.match(/^(scene\s*\d+\s*[:.\-–]?|\d+[.)])\s*(.*)$/i);
+    if (previousBlank || numbered) drafts.push(newDraft());
+    previousBlank = false;
+    const content = numbered ? numbered[2] : line;
+    if (content) addDraftLine(current(), content, cast);
+  }
+
+  return { format: 'text', scenes: finish(drafts, cast) };
+};
+
+export const parseScriptText = (text: string, format: ScriptFormat, cast: CastMember[]): ParsedScript => {
+  switch (format) {
+    case 'fountain': return parseFountain(text, cast);
+    case 'markdown': return parseMarkdown(text, cast);
+    default: return parsePlainText(text, cast);
+  }
+};
+
+// Fields the script model can fill in after an import
+export const countSceneGaps = (scenes: RawScriptScene[]) =>
+  scenes.reduce((gaps, s) =>
+    gaps
+    + [s.description, s.background, s.audio].filter(v => !v?.trim()).length
+    + (s.characters.length === 0 ? 1 : 0)
+    + s.characters.reduce((n, c) => n + [c.pose, c.expression].filter(v => !v.trim()).length + (c.actions.length ? 0 : 1), 0),
+  0);
+
+const pickText = (original: string, filled?: string) => original?.trim() ? original : (filled?.trim() || original || '');
+
+// Takes the model's values only where the imported script left a field empty
+export const fillEmptySceneFields = (original: RawScriptScene[], filled: RawScriptScene[]): RawScriptScene[] =>
+  original.map((scene, i) => {
+    const source = filled[i];
+    if (!source) return scene;
+    const characters = scene.characters.length === 0 ? (source.characters || []) : scene.characters.map(c => {
+      const match = source.characters?.find(f => f.name.trim().toLowerCase() === c.name.trim().toLowerCase());
+      return match ? {
+        ...c,
+        pose: pickText(c.pose, match.pose),
+        expression: pickText(c.expression, match.expression),
+        actions: c.actions.length ? c.actions : (match.actions || []),
+      } : c;
+    });
+    return {
+      ...scene,
+      description: pickText(scene.description, source.description),
+      background: pickText(scene.background, source.background),
+      audio: pickText(scene.audio, source.audio),
+      characters,
+    };
+  });
+
+// Neutral values for whatever is still empty, so generation prompts stay well-formed
+export const withSceneDefaults = (scenes: RawScriptScene[]): RawScriptScene[] =>
+  scenes.map(s => ({
+    ...s,
+    characters: s.characters.map(c => ({
+      ...c,
+      pose: c.pose.trim() || 'natural stance',
+      expression: c.expression.trim() || 'neutral',
+    })),
+  }));
@@ -0,0 +1,161 @@
+import { ScriptOptions, ScriptPlatform } from "../types";
+import { RawScriptScene, ScriptConstraints } from "./providers";
+
+// Scene length the script model is asked for when nothing else is requested
+export const MIN_SCENE_SECONDS = 5;
+export const MAX_SCENE_SECONDS = 10;
+export const MAX_SCRIPT_SCENES = 30;
+
+// Allowed relative difference between the script's total length and the requested one
+const DURATION_TOLERANCE = 0.2;
+
+// Suggested script languages with their BCP 47 codes, used to tag subtitle tracks
+export const SCRIPT_LANGUAGES: { name: string; code: string }[] = [
+  { name: 'English', code: 'en' },
+  { name: 'Spanish', code: 'es' },
+  { name: 'French', code: 'fr' },
+  { name: 'German', code: 'de' },
+  { name: 'Portuguese', code: 'pt' },
+  { name: 'Italian', code: 'it' },
+  { name: 'Japanese', code: 'ja' },
+  { name: 'Korean', code: 'ko' },
+  { name: 'Chinese', code: 'zh' },
+  { name: 'Hindi', code: 'hi' },
+  { name: 'Arabic', code: 'ar' },
+];
+
+// The language is free text: a listed name or a code maps to its code, anything else falls back to English
+export const getLanguageCode = (language?: string): string => {
+  const value = language?.trim() || '';
+  const known = SCRIPT_LANGUAGES.find(l => l.name.toLowerCase() === value.toLowerCase());
+  if (known) return known.code;
+  return /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(value) ? value : 'en';
+};
+
+export interface PlatformSpec {
+  id: ScriptPlatform;
+  label: string;
+  guidance: string; // Hook and ending instructions added to the script prompt
+}
+
+export const SCRIPT_PLATFORMS: PlatformSpec[] = [
+  { id: 'generic', label: 'Any platform', guidance: '' },
+  {
+    id: 'tiktok',
+    label: 'TikTok',
+    guidance: 'Open with a scroll-stopping hook in the first 2 seconds. Keep the pacing fast and the dialogue casual. End with a call to action to follow or comment.',
+  },
+  {
+    id: 'reels',
+    label: 'Instagram Reels',
+    guidance: 'Open with a strong visual hook in the first 2 seconds. Keep it polished and loop-friendly. End with a call to action to share or save.',
+  },
+  {
+    id: 'shorts',
+    label: 'YouTube Shorts',
+    guidance: 'Open with a hook that promises the payoff in the first 3 seconds. Keep the story clear and self-contained. End with a call to action to subscribe.',
+  },
+];
+
+export const getPlatformSpec = (id?: ScriptPlatform) => SCRIPT_PLATFORMS.find(p => p.id === id) || SCRIPT_PLATFORMS[0];
+
+// Scene counts follow the target length when they are not set explicitly
+export const resolveScriptConstraints = (options: ScriptOptions = {}): ScriptConstraints => {
+  const target = options.targetDurationSeconds && options.targetDurationSeconds > 0 ? options.targetDurationSeconds : undefined;
+  let minScenes = options.minScenes ?? (target ? Math.ceil(target / MAX_SCENE_SECONDS) : undefined);
+  let maxScenes = options.maxScenes ?? (target ? Math.floor(target / MIN_SCENE_SECONDS) : undefined);
+  if (minScenes !== undefined) minScenes = Math.min(MAX_SCRIPT_SCENES, Math.max(1, Math.round(minScenes)));
+  if (maxScenes !== undefined) maxScenes = Math.min(MAX_SCRIPT_SCENES, Math.max(minScenes ?? 1, Math.round(maxScenes)));
+
+  return {
+    minScenes,
+    maxScenes,
+    minSceneSeconds: MIN_SCENE_SECONDS,
+    maxSceneSeconds: MAX_SCENE_SECONDS,
+    targetDurationSeconds: target,
+    language: options.language?.trim() || undefined,
+  };
+};
+
+// Settings that cannot all be met, shown before the script is requested
+export const validateScriptOptions = (options: ScriptOptions): string[] => {
+  const problems: string[] = [];
+  const { minScenes, maxScenes, targetDurationSeconds: target } = options;
+  if (minScenes !== undefined && maxScenes !== undefined && minScenes > maxScenes) {
+    problems.push('Minimum scene count is above the maximum.');
+  }
+  if (target && maxScenes && maxScenes * MAX_SCENE_SECONDS < target) {
+    problems.push(`${maxScenes} scenes of at most ${MAX_SCENE_SECONDS}s cannot fill ${target}s.`);
+  }
+  if (target && minScenes && minScenes * MIN_SCENE_SECONDS > target) {
+    problems.push(`${minScenes} scenes of at least ${MIN_SCENE_SECONDS}s exceed ${target}s.`);
+  }
+  return problems;
+};
+
+const sceneCountText = ({ minScenes, maxScenes }: ScriptConstraints) =>
+  minScenes !== undefined && minScenes === maxScenes ? `exactly ${minScenes}`
+    : minScenes !== undefined && maxScenes !== undefined ? `between ${minScenes} and ${maxScenes}`
+      : minScenes !== undefined ? `at least ${minScenes}`
+        : maxScenes !== undefined ? `at most ${maxScenes}` : '';
+
+// The {{requirements}} block of the script templates, one instruction per line
+export const describeScriptRequirements = (options: ScriptOptions, constraints: ScriptConstraints, shape: 'script' | 'scene') => {
+  const lines: string[] = [];
+  const count = sceneCountText(constraints);
+  if (shape === 'script' && count) lines.push(`Write ${count} scenes.`);
+  if (shape === 'script' && constraints.targetDurationSeconds) {
+    lines.push(`The scene durations must add up to about ${constraints.targetDurationSeconds} seconds in total.`);
+  }
+  lines.push(`Each scene should be ${constraints.minSceneSeconds}-${constraints.maxSceneSeconds} seconds.`);
+  if (options.tone?.trim()) lines.push(`Tone and genre: ${options.tone.trim()}.`);
+  if (options.audience?.trim()) lines.push(`Target audience: ${options.audience.trim()}.`);
+  if (constraints.language) {
+    lines.push(`Write every description, dialogue line and on-screen text in ${constraints.language}. Keep the JSON field names and cast names as given.`);
+  }
+  const platform = getPlatformSpec(options.platform);
+  if (platform.guidance) {
+    lines.push(shape === 'script' ? `This is for ${platform.label}. ${platform.guidance}` : `This is for ${platform.label}; match its pacing.`);
+  }
+  return lines.join('\n');
+};
+
+/** Ways the returned scenes miss the constraints, as sentences the script model can act on. */
+export const validateScriptScenes = (scenes: RawScriptScene[], constraints: ScriptConstraints, shape: 'script' | 'scene'): string[] => {
+  const problems: string[] = [];
+  if (scenes.length === 0) return ['The script has no scenes.'];
+
+  if (shape === 'script') {
+    if (constraints.minScenes !== undefined && scenes.length < constraints.minScenes) {
+      problems.push(`There are ${scenes.length} scenes, at least ${constraints.minScenes} are required.`);
+    }
+    if (constraints.maxScenes !== undefined && scenes.length > constraints.maxScenes) {
+      problems.push(`There are ${scenes.length} scenes, at most ${constraints.maxScenes} are allowed.`);
+    }
+    const total = scenes.reduce((sum, s) => sum + (Number(s.duration_seconds) || 0), 0);
+    const target = constraints.targetDurationSeconds;
+    if (target && Math.abs(total - target) > target * DURATION_TOLERANCE) {
+      problems.push(`The scenes add up to ${total} seconds instead of about ${target}.`);
+    }
+  }
+
+  scenes.forEach((s, i) => {
+    const label = `Scene ${i + 1}`;
+    const seconds = Number(s.duration_seconds);
+    if (!seconds || seconds < constraints.minSceneSeconds || seconds > constraints.maxSceneSeconds) {
+      problems.push(`${label} is ${s.duration_seconds || 0} seconds, it must be ${constraints.minSceneSeconds}-${constraints.maxSceneSeconds}.`);
+    }
+    if (!s.description?.trim()) problems.push(`${label} has no description.`);
+    if (!s.background?.trim()) problems.push(`${label} has no background.`);
+  });
+  return problems;
+};
+
+// Last resort when a repair did not help: drop extra scenes, clamp durations and renumber.
+// A script below minScenes stays short; generateScript reports it as a warning.
+export const fitScriptScenes = (scenes: RawScriptScene[], constraints: ScriptConstraints): RawScriptScene[] =>
+  scenes.slice(0, constraints.maxScenes ?? scenes.length).map((s, i) => ({
+    ...s,
+    scene_number: i + 1,
+    duration_seconds: Math.min(constraints.maxSceneSeconds, Math.max(constraints.minSceneSeconds, Math.round(Number(s.duration_seconds) || constraints.minSceneSeconds))),
+  }));
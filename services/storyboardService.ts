@@ -0,0 +1,316 @@
+import { Project } from '../types';
+import { logger } from './logger';
+import { getAspectSpec } from './aspectRatio';
+import { castMemberName } from './projectUtils';
+import { buildImagePdf, A4_PORTRAIT, PdfPage } from './pdfWriter';
+
+// Everything a storyboard shows for one scene, shared by the HTML and PDF layouts
+interface StoryboardEntry {
+  number: number;
+  duration: number;
+  frameUrl?: string;
+  fields: { label: string; value: string }[]; // Empty values are left out
+}
+
+const storyboardEntries = (project: Project): StoryboardEntry[] =>
+  project.scenes.map(scene => {
+    const names = scene.characters.map(c => castMemberName(project.cast, c.castId));
+    const fields = [
+      { label: 'Description', value: scene.description },
+      { label: 'Action', value: scene.characters.map((c, i) => `${names[i]}: ${c.actions.join(', ') || 'present'}`).join('\n') },
+      { label: 'Expression', value: scene.characters.map((c, i) => `${names[i]}: ${c.expression}`).join('\n') },
+      { label: 'Background', value: scene.background },
+      { label: 'Audio', value: scene.audio },
+      { label: 'Dialogue', value: scene.dialogue },
+    ];
+    return {
+      number: scene.scene_number,
+      duration: scene.duration_seconds,
+      frameUrl: scene.previewImageUrl,
+      fields: fields.filter(f => f.value?.trim()),
+    };
+  });
+
+const summaryLine = (project: Project) => {
+  const seconds = project.scenes.reduce((total, s) => total + (s.duration_seconds || 0), 0);
+  return `${getAspectSpec(project.aspectRatio).label} · ${project.scenes.length} scenes · ${seconds}s · ${new Date().toLocaleDateString()}`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// blob: URLs die with the tab, so the HTML file carries its images inline
+const toDataUrl = async (url?: string): Promise<string | undefined> => {
+  if (!url || url.startsWith('data:')) return url;
+  try {
+    const blob = await (await fetch(url)).blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (err) {
+    logger.warn("Could not embed an image in the storyboard", err);
+    return undefined;
+  }
+};
+
+const HTML_STYLE = `
+  * { box-sizing: border-box; }
+  body { font-family: Helvetica, Arial, sans-serif; color: #111; margin: 0 auto; max-width: 900px; padding: 24px; }
+  h1 { font-size: 28px; margin: 0 0 8px; }
+  .meta { color: #666; font-size: 13px; margin-bottom: 24px; }
+  .topic { font-size: 15px; margin-bottom: 8px; }
+  .cover { break-after: page; }
+  .cast { display: grid; grid-template-columns: repeat(3, 1fr); gap: 16px; }
+  .cast img, .cast .placeholder { width: 100%; aspect-ratio: 1; object-fit: cover; border-radius: 8px; background: #eee; }
+  .cast h3 { margin: 8px 0 4px; font-size: 15px; }
+  .cast p { margin: 0; font-size: 12px; color: #444; }
+  .scene { display: flex; gap: 20px; padding: 16px 0; border-bottom: 1px solid #ddd; break-inside: avoid; }
+  .frame { flex: 0 0 auto; width: var(--frame-width); aspect-ratio: var(--frame-ratio); object-fit: cover; border-radius: 6px; background: #eee;
+    display: flex; align-items: center; justify-content: center; color: #999; font-size: 12px; }
+  .details { flex: 1; min-width: 0; }
+  .details h2 { font-size: 18px; margin: 0 0 8px; }
+  .details h2 span { color: #888; font-weight: normal; font-size: 14px; }
+  .label { font-size: 10px; font-weight: bold; color: #888; text-transform: uppercase; letter-spacing: 0.05em; margin-top: 8px; }
+  .value { font-size: 13px; white-space: pre-wrap; }
+  @page { size: A4; margin: 12mm; }
+  @media print { body { padding: 0; max-width: none; } }
+`;
+
+/** Standalone HTML storyboard: a cover with the cast, then one block per scene; prints one scene block unbroken. */
+export const exportStoryboardHtml = async (project: Project): Promise<Blob> => {
+  logger.info("Building HTML storyboard", { scenes: project.scenes.length });
+  const spec = getAspectSpec(project.aspectRatio);
+  const frameWidth = spec.outputWidth >= spec.outputHeight ? '320px' : '180px';
+
+  const castHtml = await Promise.all(project.cast.map(async member => {
+    const image = await toDataUrl(member.referenceImageUrl);
+    return `<div>${image ? `<img src="${image}" alt="">` : '<div class="placeholder"></div>'}
+      <h3>${escapeHtml(member.name || 'Unnamed character')}</h3><p>${escapeHtml(member.appearance || '')}</p></div>`;
+  }));
+
+  const scenesHtml = await Promise.all(storyboardEntries(project).map(async entry => {
+    const frame = await toDataUrl(entry.frameUrl);
+    return `<section class="scene">
+      ${frame ? `<img class="frame" src="${frame}" alt="">` : '<div class="frame">No frame yet</div>'}
+      <div class="details">
+        <h2>Scene ${entry.number} <span>· ${entry.duration}s</span></h2>
+        ${entry.fields.map(f => `<div class="label">${f.label}</div><div class="value">${escapeHtml(f.value)}</div>`).join('\n')}
+      </div>
+    </section>`;
+  }));
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(project.name)} storyboard</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body style="--frame-width: ${frameWidth}; --frame-ratio: ${spec.outputWidth} / ${spec.outputHeight};">
+<div class="cover">
+  <h1>${escapeHtml(project.name)}</h1>
+  <div class="topic">${escapeHtml(project.topic)}</div>
+  <div class="meta">${escapeHtml(summaryLine(project))}</div>
+  <div class="cast">${castHtml.join('\n')}</div>
+</div>
+${scenesHtml.join('\n')}
+</body>
+</html>`;
+
+  logger.success("Storyboard HTML ready");
+  return new Blob([html], { type: 'text/html' });
+};
+
+// A4 at 150 dpi
+const PAGE_WIDTH = Math.round(A4_PORTRAIT.widthInches * 150);
+const PAGE_HEIGHT = Math.round(A4_PORTRAIT.heightInches * 150);
+const MARGIN = 80;
+const SCENES_PER_PAGE = 3;
+const FONT = 'Helvetica, Arial, sans-serif';
+
+const loadImage = (url?: string): Promise<HTMLImageElement | undefined> =>
+  new Promise(resolve => {
+    if (!url) return resolve(undefined);
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(undefined);
+    img.src = url;
+  });
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    return [line];
+  });
+
+// Draws wrapped text from `y` and returns where it ended; stops with an ellipsis at `bottom`
+const drawWrapped = (
+  ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number, bottom: number
+): number => {
+  const lines = wrapText(ctx, text, maxWidth);
+  for (const [i, line] of lines.entries()) {
+    if (y + lineHeight > bottom) return y;
+    const isLastVisible = i < lines.length - 1 && y + lineHeight * 2 > bottom;
+    ctx.fillText(isLastVisible ? `${line.replace(/\s*\S*$/, '')}…` : line, x, y);
+    y += lineHeight;
+    if (isLastVisible) return y;
+  }
+  return y;
+};
+
+// Fills the box with the image, cropping the overflow like object-fit: cover
+const drawImageCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.max(w / img.naturalWidth, h / img.naturalHeight);
+  const sw = w / scale;
+  const sh = h / scale;
+  ctx.drawImage(img, (img.naturalWidth - sw) / 2, (img.naturalHeight - sh) / 2, sw, sh, x, y, w, h);
+};
+
+const drawPlaceholder = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, label: string) => {
+  ctx.fillStyle = '#e5e7eb';
+  ctx.fillRect(x, y, w, h);
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = `22px ${FONT}`;
+  ctx.textAlign = 'center';
+  ctx.fillText(label, x + w / 2, y + h / 2);
+  ctx.textAlign = 'left';
+};
+
+const newPage = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH;
+  canvas.height = PAGE_HEIGHT;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+  ctx.textBaseline = 'top';
+  return { canvas, ctx };
+};
+
+const toPdfPage = (canvas: HTMLCanvasElement): Promise<PdfPage> =>
+  new Promise((resolve, reject) => canvas.toBlob(async blob => {
+    if (!blob) return reject(new Error("Could not encode a storyboard page"));
+    resolve({ jpeg: new Uint8Array(await blob.arrayBuffer()), pixelWidth: canvas.width, pixelHeight: canvas.height });
+  }, 'image/jpeg', 0.88));
+
+const drawCover = async (ctx: CanvasRenderingContext2D, project: Project) => {
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  ctx.fillStyle = '#111827';
+  ctx.font = `bold 56px ${FONT}`;
+  let y = drawWrapped(ctx, project.name, MARGIN, MARGIN, contentWidth, 68, MARGIN + 150);
+  ctx.font = `28px ${FONT}`;
+  ctx.fillStyle = '#374151';
+  y = drawWrapped(ctx, project.topic, MARGIN, y + 16, contentWidth, 38, y + 16 + 38 * 4);
+  ctx.font = `22px ${FONT}`;
+  ctx.fillStyle = '#6b7280';
+  ctx.fillText(summaryLine(project), MARGIN, y + 16);
+  y += 90;
+
+  if (project.cast.length === 0) return;
+  ctx.fillStyle = '#111827';
+  ctx.font = `bold 32px ${FONT}`;
+  ctx.fillText('Cast', MARGIN, y);
+  y += 56;
+
+  const columns = 3;
+  const gap = 40;
+  const cardWidth = (contentWidth - gap * (columns - 1)) / columns;
+  const cardHeight = cardWidth + 170;
+  for (const [i, member] of project.cast.entries()) {
+    const x = MARGIN + (i % columns) * (cardWidth + gap);
+    const top = y + Math.floor(i / columns) * (cardHeight + gap);
+    if (top + cardHeight > PAGE_HEIGHT - MARGIN) break; // Cover holds as many cards as fit
+    const img = await loadImage(member.referenceImageUrl);
+    if (img) drawImageCover(ctx, img, x, top, cardWidth, cardWidth);
+    else drawPlaceholder(ctx, x, top, cardWidth, cardWidth, 'No reference');
+    ctx.fillStyle = '#111827';
+    ctx.font = `bold 26px ${FONT}`;
+    ctx.fillText(member.name || 'Unnamed character', x, top + cardWidth + 16);
+    ctx.fillStyle = '#4b5563';
+    ctx.font = `20px ${FONT}`;
+    drawWrapped(ctx, member.appearance || '', x, top + cardWidth + 54, cardWidth, 26, top + cardHeight);
+  }
+};
+
+const drawScenePage = async (ctx: CanvasRenderingContext2D, project: Project, entries: StoryboardEntry[], pageNumber: number) => {
+  const spec = getAspectSpec(project.aspectRatio);
+  const ratio = spec.outputWidth / spec.outputHeight;
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const rowHeight = (PAGE_HEIGHT - MARGIN * 2 - 40) / SCENES_PER_PAGE;
+  const frameHeight = Math.min(rowHeight - 40, (contentWidth * 0.4) / ratio);
+  const frameWidth = frameHeight * ratio;
+
+  for (const [i, entry] of entries.entries()) {
+    const top = MARGIN + i * rowHeight;
+    const bottom = top + rowHeight - 30;
+    const img = await loadImage(entry.frameUrl);
+    if (img) drawImageCover(ctx, img, MARGIN, top, frameWidth, frameHeight);
+    else drawPlaceholder(ctx, MARGIN, top, frameWidth, frameHeight, 'No frame yet');
+
+    const x = MARGIN + frameWidth + 40;
+    const textWidth = PAGE_WIDTH - MARGIN - x;
+    ctx.fillStyle = '#111827';
+    ctx.font = `bold 34px ${FONT}`;
+    ctx.fillText(`Scene ${entry.number}`, x, top);
+    const titleWidth = ctx.measureText(`Scene ${entry.number}`).width;
+    ctx.font = `24px ${FONT}`;
+    ctx.fillStyle = '#6b7280';
+    ctx.fillText(` · ${entry.duration}s`, x + titleWidth, top + 8);
+
+    let y = top + 52;
+    for (const field of entry.fields) {
+      if (y + 56 > bottom) break;
+      ctx.fillStyle = '#6b7280';
+      ctx.font = `bold 16px ${FONT}`;
+      ctx.fillText(field.label.toUpperCase(), x, y);
+      ctx.fillStyle = '#1f2937';
+      ctx.font = `21px ${FONT}`;
+      y = drawWrapped(ctx, field.value, x, y + 22, textWidth, 27, bottom) + 10;
+    }
+
+    if (i < entries.length - 1) {
+      ctx.fillStyle = '#e5e7eb';
+      ctx.fillRect(MARGIN, top + rowHeight - 15, contentWidth, 2);
+    }
+  }
+
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = `18px ${FONT}`;
+  ctx.fillText(`${project.name} · page ${pageNumber}`, MARGIN, PAGE_HEIGHT - MARGIN + 20);
+};
+
+/** Client-side PDF storyboard with the same content as the HTML export, rendered page by page on a canvas. */
+export const exportStoryboardPdf = async (project: Project, onProgress?: (progress: number) => void): Promise<Blob> => {
+  const entries = storyboardEntries(project);
+  const pageCount = 1 + Math.ceil(entries.length / SCENES_PER_PAGE);
+  logger.info("Building PDF storyboard", { scenes: entries.length, pages: pageCount });
+
+  const pages: PdfPage[] = [];
+  const cover = newPage();
+  await drawCover(cover.ctx, project);
+  pages.push(await toPdfPage(cover.canvas));
+  onProgress?.(pages.length / pageCount);
+
+  for (let start = 0; start < entries.length; start += SCENES_PER_PAGE) {
+    const page = newPage();
+    await drawScenePage(page.ctx, project, entries.slice(start, start + SCENES_PER_PAGE), pages.length + 1);
+    pages.push(await toPdfPage(page.canvas));
+    onProgress?.(pages.length / pageCount);
+  }
+
+  logger.success(`Storyboard PDF ready (${pages.length} pages)`);
+  return buildImagePdf(pages, A4_PORTRAIT.widthInches, A4_PORTRAIT.heightInches);
+};
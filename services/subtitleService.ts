@@ -0,0 +1,92 @@
+import { Scene } from '../types';
+import { getRenderableScenes } from './renderService';
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export interface TimelineEntry {
+  scene: Scene;
+  start: number;
+  duration: number;
+}
+
+// Keep cues short enough to read on a phone in one glance
+const MAX_WORDS_PER_CUE = 8;
+
+export const getMediaDuration = (url: string): Promise<number | null> =>
+  new Promise(resolve => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => resolve(Number.isFinite(video.duration) ? video.duration : null);
+    video.onerror = () => resolve(null);
+    video.src = url;
+  });
+
+/**
+ * Lays scenes out on the same timeline as the final movie: only completed clips when there are
+ * any (using each clip's real length), otherwise every scene at its scripted duration_seconds.
+ */
+export const buildTimeline = async (scenes: Scene[]): Promise<TimelineEntry[]> => {
+  const renderable = getRenderableScenes(scenes);
+  const ordered = renderable.length > 0 ? renderable : [...scenes].sort((a, b) => a.scene_number - b.scene_number);
+
+  const timeline: TimelineEntry[] = [];
+  let cursor = 0;
+  for (const scene of ordered) {
+    const clipDuration = scene.videoUrl ? await getMediaDuration(scene.videoUrl) : null;
+    const duration = clipDuration || scene.duration_seconds;
+    timeline.push({ scene, start: cursor, duration });
+    cursor += duration;
+  }
+  return timeline;
+};
+
+// Splits one scene's dialogue into several cues, timed by their share of the characters
+const cuesForDialogue = (dialogue: string, start: number, duration: number): SubtitleCue[] => {
+  const words = dialogue.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += MAX_WORDS_PER_CUE) {
+    chunks.push(words.slice(i, i + MAX_WORDS_PER_CUE).join(' '));
+  }
+
+  const totalChars = chunks.reduce((sum, c) => sum + c.length, 0);
+  let cursor = start;
+  return chunks.map(text => {
+    const length = duration * (text.length / totalChars);
+    const cue = { start: cursor, end: cursor + length, text };
+    cursor += length;
+    return cue;
+  });
+};
+
+export const buildCues = (timeline: TimelineEntry[]): SubtitleCue[] =>
+  timeline.flatMap(({ scene, start, duration }) => cuesForDialogue(scene.dialogue, start, duration));
+
+// Cues for a single clip, starting at 0, as used by the per-scene <track> in the player
+export const buildSceneCues = (scene: Scene, duration: number): SubtitleCue[] =>
+  cuesForDialogue(scene.dialogue, 0, duration);
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3_600_000);
+  const m = Math.floor((totalMs % 3_600_000) / 60_000);
+  const s = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+export const toSrt = (cues: SubtitleCue[]): string =>
+  cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+
+export const toVtt = (cues: SubtitleCue[]): string =>
+  `WEBVTT\n\n${cues
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n')}`;
@@ -0,0 +1,100 @@
+import { UsageRecord, UsageTotals } from '../types';
+import { logger } from './logger';
+
+type Listener = (totals: Record<string, UsageTotals>) => void;
+
+interface ModelPrice {
+  perVideoSecond?: number;
+  perImage?: number;
+  perMillionInputTokens?: number;
+  perMillionOutputTokens?: number;
+}
+
+// Approximate USD list prices; the Google Cloud bill is authoritative. Models not listed (e.g. the mock) are free.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'veo-3.1-fast-generate-preview': { perVideoSecond: 0.15 },
+  'veo-3.1-generate-preview': { perVideoSecond: 0.40 },
+  'gemini-2.5-flash-image': { perImage: 0.039 },
+  'gemini-2.5-flash': { perMillionInputTokens: 0.30, perMillionOutputTokens: 2.50 },
+  'gemini-2.5-pro': { perMillionInputTokens: 1.25, perMillionOutputTokens: 10 },
+  'gemini-2.5-flash-preview-tts': { perMillionInputTokens: 0.50, perMillionOutputTokens: 10 },
+};
+
+export type UsageAmounts = Pick<UsageRecord, 'videoSeconds' | 'images' | 'inputTokens' | 'outputTokens'>;
+
+export const estimateCost = (model: string, usage: UsageAmounts): number => {
+  const price = MODEL_PRICES[model];
+  if (!price) return 0;
+  return (usage.videoSeconds || 0) * (price.perVideoSecond || 0)
+    + (usage.images || 0) * (price.perImage || 0)
+    + (usage.inputTokens || 0) / 1e6 * (price.perMillionInputTokens || 0)
+    + (usage.outputTokens || 0) / 1e6 * (price.perMillionOutputTokens || 0);
+};
+
+export const formatCost = (usd: number) => usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+export const EMPTY_TOTALS: UsageTotals = { calls: 0, cost: 0, videoSeconds: 0, images: 0, inputTokens: 0, outputTokens: 0 };
+
+const STORAGE_KEY = "usage_totals";
+
+// Running totals per project id, kept in localStorage so they survive undo, reloads and re-imports
+class UsageTracker {
+  private listeners: Listener[] = [];
+  private totals: Record<string, UsageTotals> = this.load();
+
+  private load(): Record<string, UsageTotals> {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.push(listener);
+    listener(this.totals);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private emit() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.totals));
+    this.listeners.forEach(l => l(this.totals));
+  }
+
+  record(usage: Omit<UsageRecord, 'cost' | 'timestamp'>): UsageRecord {
+    const entry: UsageRecord = { ...usage, timestamp: Date.now(), cost: estimateCost(usage.model, usage) };
+    logger.info(`Usage: ${entry.kind} on ${entry.model} (${formatCost(entry.cost)})`, entry);
+
+    if (entry.projectId) {
+      const current = this.getTotals(entry.projectId);
+      this.totals = {
+        ...this.totals,
+        [entry.projectId]: {
+          calls: current.calls + 1,
+          cost: current.cost + entry.cost,
+          videoSeconds: current.videoSeconds + (entry.videoSeconds || 0),
+          images: current.images + (entry.images || 0),
+          inputTokens: current.inputTokens + (entry.inputTokens || 0),
+          outputTokens: current.outputTokens + (entry.outputTokens || 0),
+        },
+      };
+      this.emit();
+    }
+    return entry;
+  }
+
+  getTotals(projectId: string): UsageTotals {
+    return this.totals[projectId] || EMPTY_TOTALS;
+  }
+
+  forgetProject(projectId: string) {
+    if (!this.totals[projectId]) return;
+    const { [projectId]: _, ...rest } = this.totals;
+    this.totals = rest;
+    this.emit();
+  }
+}
+
+export const usageTracker = new UsageTracker();
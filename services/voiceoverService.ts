@@ -0,0 +1,171 @@
+import { Modality } from "@google/genai";
+import { getClient } from "./providers/geminiProvider";
+import { TokenUsage } from "./providers/types";
+import { CostEstimate } from "./generationService";
+import { logger } from "./logger";
+import { usageTracker, estimateCost } from "./usageTracker";
+
+export interface VoiceOption {
+  id: string;
+  label: string;
+}
+
+export interface VoiceoverResult {
+  audio: Blob;
+  usage?: TokenUsage; // When the backend reports it
+}
+
+export interface VoiceoverProvider {
+  id: string;
+  label: string;
+  model: string; // Recorded with the usage of every call
+  voices: VoiceOption[];
+  synthesize: (text: string, voiceId: string) => Promise<VoiceoverResult>;
+}
+
+// Gemini TTS returns raw 16-bit mono PCM at 24kHz
+const TTS_SAMPLE_RATE = 24000;
+
+const encodeWav = (samples: Int16Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+const base64ToPcm = (base64: string): Int16Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+};
+
+export const geminiVoiceoverProvider: VoiceoverProvider = {
+  id: 'gemini',
+  label: 'Gemini TTS',
+  model: 'gemini-2.5-flash-preview-tts',
+  voices: [
+    { id: 'Kore', label: 'Kore (firm)' },
+    { id: 'Puck', label: 'Puck (upbeat)' },
+    { id: 'Charon', label: 'Charon (informative)' },
+    { id: 'Fenrir', label: 'Fenrir (excitable)' },
+    { id: 'Aoede', label: 'Aoede (breezy)' },
+    { id: 'Leda', label: 'Leda (youthful)' },
+    { id: 'Orus', label: 'Orus (firm)' },
+    { id: 'Zephyr', label: 'Zephyr (bright)' },
+  ],
+  synthesize: async (text, voiceId) => {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+      model: geminiVoiceoverProvider.model,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceId } },
+        },
+      },
+    });
+
+    const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
+    if (!data) {
+      throw new Error("No audio data returned from TTS model.");
+    }
+    return {
+      audio: encodeWav(base64ToPcm(data), TTS_SAMPLE_RATE),
+      usage: response.usageMetadata && {
+        inputTokens: response.usageMetadata.promptTokenCount || 0,
+        outputTokens: response.usageMetadata.candidatesTokenCount || 0,
+      },
+    };
+  },
+};
+
+// Offline stand-in: one soft "syllable" tone per word so timing and sync can be checked without an API key
+export const localStubVoiceoverProvider: VoiceoverProvider = {
+  id: 'local',
+  label: 'Offline stub (tones)',
+  model: 'local-tts-stub',
+  voices: [
+    { id: 'low', label: 'Low tone' },
+    { id: 'mid', label: 'Mid tone' },
+    { id: 'high', label: 'High tone' },
+  ],
+  synthesize: async (text, voiceId) => {
+    const baseFreq = voiceId === 'low' ? 160 : voiceId === 'high' ? 420 : 260;
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    const wordSeconds = 0.32;
+    const gapSeconds = 0.08;
+    const totalSamples = Math.ceil(words.length * (wordSeconds + gapSeconds) * TTS_SAMPLE_RATE);
+    const samples = new Int16Array(totalSamples);
+
+    words.forEach((word, w) => {
+      const start = Math.floor(w * (wordSeconds + gapSeconds) * TTS_SAMPLE_RATE);
+      const length = Math.floor(wordSeconds * TTS_SAMPLE_RATE);
+      // Vary pitch slightly by word length so consecutive words are distinguishable
+      const freq = baseFreq * (1 + (word.length % 5) * 0.06);
+      for (let i = 0; i < length && start + i < totalSamples; i++) {
+        const envelope = Math.sin(Math.PI * i / length);
+        samples[start + i] = Math.round(Math.sin(2 * Math.PI * freq * i / TTS_SAMPLE_RATE) * envelope * 6000);
+      }
+    });
+
+    return { audio: encodeWav(samples, TTS_SAMPLE_RATE) };
+  },
+};
+
+export const VOICEOVER_PROVIDERS: VoiceoverProvider[] = [geminiVoiceoverProvider, localStubVoiceoverProvider];
+
+export const getVoiceoverProvider = (): VoiceoverProvider => {
+  const selected = localStorage.getItem("voiceover_provider");
+  return VOICEOVER_PROVIDERS.find(p => p.id === selected) || geminiVoiceoverProvider;
+};
+
+export const setVoiceoverProvider = (id: string) => {
+  localStorage.setItem("voiceover_provider", id);
+};
+
+// Rough token counts for one line: ~4 characters per text token, speech at ~2.5 words per second
+// and 25 audio tokens per second of output
+export const estimateVoiceoverCost = (text: string): CostEstimate => {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  const cost = estimateCost(getVoiceoverProvider().model, {
+    inputTokens: Math.ceil(text.length / 4),
+    outputTokens: Math.ceil(words / 2.5 * 25),
+  });
+  return { videos: 0, videoSeconds: 0, images: 0, cost };
+};
+
+export const synthesizeVoiceover = async (text: string, voiceId?: string, projectId?: string): Promise<string> => {
+  const provider = getVoiceoverProvider();
+  const voice = provider.voices.find(v => v.id === voiceId) ? voiceId! : provider.voices[0].id;
+  logger.info("Synthesizing voiceover", { provider: provider.id, voice, text });
+
+  try {
+    const { audio, usage } = await provider.synthesize(text, voice);
+    usageTracker.record({ projectId, kind: 'tts', model: provider.model, ...usage });
+    logger.success("Voiceover ready", { sizeKB: Math.round(audio.size / 1024) });
+    return URL.createObjectURL(audio);
+  } catch (err: any) {
+    logger.error("Voiceover synthesis failed", err);
+    throw err;
+  }
+};
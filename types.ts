@@ -1,37 +1,147 @@
 
-export interface Character {
+// A recurring character, shared by every scene of the project
+export interface CastMember {
+  id: string;
   name: string;
+  appearance: string;
+  referenceImageUrl?: string;
+  voice?: string; // Voice id of the active voiceover provider
+}
+
+// How one cast member appears in a single scene
+export interface Character {
+  castId: string;
   pose: string;
   expression: string;
   actions: string[];
 }
 
+export type AspectRatio = '9:16' | '16:9' | '1:1';
+
+// One generated clip of a scene; regenerating adds a take instead of overwriting the last one
+export interface SceneTake {
+  id: string;
+  videoUrl: string;
+  prompt: string;
+  model: string;
+  createdAt: number;
+  seed?: number;
+  batchId?: string; // Candidates returned by the same request share a batch
+  aspectRatio?: AspectRatio; // Project format the take was generated for
+}
+
+// A Veo operation that was started but not collected yet, persisted so a reload can resume it
+export interface PendingOperation {
+  name: string;
+  model: string;
+  prompt: string;
+  startedAt: number;
+  candidates?: number;
+  aspectRatio?: AspectRatio;
+  seed?: number;
+}
+
+// Model and quality choices; unset fields fall back to the project, then to the backend's defaults
+export interface GenerationSettings {
+  videoModel?: string;
+  resolution?: string;
+  scriptModel?: string; // Project level only
+  imageModel?: string;
+}
+
+export type PersonGeneration = 'allow_all' | 'allow_adult' | 'dont_allow';
+
+// Optional clip generation knobs; unset fields leave the decision to the model
+export interface SceneAdvanced {
+  negativePrompt?: string; // What the clip should not contain
+  seed?: number; // Same seed + same prompt gives a near-identical clip
+  personGeneration?: PersonGeneration;
+  cameraMovement?: string; // Added to the prompt, e.g. "slow dolly in"
+}
+
+export type ScriptPlatform = 'generic' | 'tiktok' | 'reels' | 'shorts';
+
+// Constraints for script generation; unset fields leave the choice to the model
+export interface ScriptOptions {
+  targetDurationSeconds?: number; // Whole video
+  minScenes?: number;
+  maxScenes?: number;
+  tone?: string; // Tone or genre, e.g. "comedic"
+  audience?: string;
+  language?: string; // Of the dialogue and any on-screen text
+  platform?: ScriptPlatform; // Shapes the opening hook and the ending call to action
+}
+
+export type PromptTemplateId = 'script' | 'scriptRepair' | 'scriptFill' | 'insertedScene' | 'sceneRewrite' | 'characterPreview' | 'scenePreview' | 'sceneVideo' | 'idleVideo';
+
+// Project edits of the built-in prompt templates; missing or blank entries use the default
+export type PromptTemplates = Partial<Record<PromptTemplateId, string>>;
+
 export interface Scene {
+  id: string; // Stable identity, scene_number changes when scenes are reordered
   scene_number: number;
   duration_seconds: number;
   description: string;
-  character: Character;
+  characters: Character[];
   background: string;
   audio: string;
   dialogue: string;
   status: 'draft' | 'pending' | 'generating' | 'completed' | 'error';
-  videoUrl?: string;
+  videoUrl?: string; // Always the active take's video, so playback and export need no take logic
+  takes?: SceneTake[];
+  activeTakeId?: string;
   previewImageUrl?: string; // New: Static storyboard image
+  previewStatus?: 'draft' | 'pending' | 'generating' | 'completed' | 'error';
+  useFrameAsFirstFrame?: boolean; // Start the clip from previewImageUrl (image-to-video)
   errorMsg?: string;
   // Idle Animation Fields
   idleDescription?: string;
   idleVideoUrl?: string;
   idleStatus?: 'draft' | 'generating' | 'completed' | 'error';
+  // Voiceover Fields
+  voiceoverUrl?: string;
+  voiceoverStatus?: 'draft' | 'generating' | 'completed' | 'error';
+  speakerCastId?: string; // Who says the dialogue, defaults to the first character in the scene
+  pendingOperation?: PendingOperation; // Clip render in flight
+  pendingIdleOperation?: PendingOperation; // Idle loop render in flight
+  generationOverrides?: GenerationSettings; // Per-scene model/quality, on top of the project settings
+  advanced?: SceneAdvanced;
+}
+
+export type CaptionPosition = 'top' | 'center' | 'bottom';
+
+export interface CaptionStyle {
+  enabled: boolean;
+  presetId: string;
+  fontFamily: string;
+  fontSize: number; // px, relative to a frame with a 720px short side
+  fontWeight: number;
+  color: string;
+  strokeColor: string;
+  strokeWidth: number;
+  position: CaptionPosition;
+  karaoke: boolean; // highlight the word currently being spoken
+  highlightColor: string;
 }
 
 export interface Project {
   id: string;
   name: string;
   topic: string;
-  characterDescription: string;
-  characterImageUrl?: string; // New: Character reference image
+  cast: CastMember[];
   scenes: Scene[];
   createdAt: number;
+  // Stitched render of all completed scenes, included in folder exports when present
+  finalMovieUrl?: string;
+  finalMovieRenderedAt?: number;
+  captionStyle?: CaptionStyle;
+  candidatesPerScene?: number; // Videos requested per clip generation, 1 when unset
+  generationSettings?: GenerationSettings;
+  aspectRatio?: AspectRatio; // 9:16 when unset
+  budget?: SpendingBudget;
+  scriptOptions?: ScriptOptions; // Also applied to scenes inserted later
+  promptTemplates?: PromptTemplates;
+  visualStyle?: string; // {{style}} in prompt templates, DEFAULT_VISUAL_STYLE when unset
 }
 
 export type AppState = 'dashboard' | 'scripting' | 'editing' | 'generating' | 'preview';
@@ -43,3 +153,60 @@ export interface LogEntry {
   message: string;
   details?: any;
 }
+
+export type GenerationJobStatus = 'pending' | 'running' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  label: string;
+  model: string; // Rate limits are applied per model
+  status: GenerationJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  nextAttemptAt?: number; // Set while waiting for a retry
+  error?: string;
+}
+
+export type UsageKind = 'script' | 'image' | 'video' | 'tts';
+
+// One billed call, as recorded by the usage tracker
+export interface UsageRecord {
+  projectId?: string; // Unset for work done before a project exists, e.g. dashboard cast previews
+  kind: UsageKind;
+  model: string;
+  timestamp: number;
+  videoSeconds?: number;
+  images?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  cost: number; // USD, estimated from list prices
+}
+
+export interface UsageTotals {
+  calls: number;
+  cost: number;
+  videoSeconds: number;
+  images: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface SpendingBudget {
+  limit: number; // USD
+  mode: 'warn' | 'block';
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  topic: string;
+  sceneCount: number;
+  completedCount: number;
+  pendingRenders: number; // Veo operations saved on the scenes, still to be collected
+  thumbnailUrl?: string;
+  createdAt: number;
+  updatedAt: number;
+}